@@ -0,0 +1,239 @@
+// api/_lib/analysis.ts
+// 企業ごとの分析レポート（Markdown + 構造化分析）の生成とキャッシュ形式
+import { canonicalizeCompany } from './companies.js';
+import { saveReportVersion } from './history.js';
+import { kvSetEx } from './kv.js';
+import { DEFAULT_LENS_ID, getLens, isLensId, type AnalysisLens } from './lenses.js';
+import type { LlmGenerateResult, LlmProvider, LlmProviderName } from './llm.js';
+import {
+  DEFAULT_NEWS_EDITIONS,
+  DEFAULT_OUTPUT_LANGUAGE,
+  isNewsEditionId,
+  isOutputLanguage,
+  OUTPUT_LANGUAGES,
+  type OutputLanguage,
+} from './locales.js';
+import type { NewsProvider } from './news-providers.js';
+import { collectNews, newsSearchesFor, type CollectedNews, type NewsSource, type NewsStage } from './news.js';
+import { DEFAULT_REPORT_VARIANT, reportVariantSuffix, type ReportVariant } from './report-variant.js';
+import { generateStructuredAnalysis, type StructuredAnalysis } from './structured-analysis.js';
+import {
+  DEFAULT_TIME_WINDOW,
+  isDefaultTimeWindow,
+  parseTimeWindow,
+  resolveTimeWindow,
+  windowCacheTtlSeconds,
+  type NewsRange,
+  type TimeWindow,
+} from './time-window.js';
+import type { Trace } from './trace.js';
+
+// レポートを生成したモデル
+export type ReportModel = {
+  provider: LlmProviderName;
+  name: string;
+  version?: string;
+};
+
+// KV に保存する値（VER 3.0 以前はレポート本文の文字列をそのまま保存していた）
+export type CachedReport = {
+  report: string;
+  analysis: StructuredAnalysis | null; // 構造化分析（生成に失敗したら null）
+  sources: NewsSource[];
+  model: ReportModel | null; // 古いキャッシュには無い
+  generatedAt: string;
+  newsRange: NewsRange | null; // 実際に検索した期間（古いキャッシュには無い）
+} & ReportVariant; // 古いキャッシュには無い（既定の組み合わせとして扱う）
+
+export const REPORT_TTL_SECONDS = 86400 * 7;
+
+// 表記揺れ（「トヨタ」「TOYOTA」「7203」など）は同じキーになる
+export function normalizeCompanyKey(companyName: string): string {
+  return canonicalizeCompany(companyName).id;
+}
+
+export function reportCacheKey(companyKey: string, variant: ReportVariant = DEFAULT_REPORT_VARIANT): string {
+  return `report:${companyKey}${reportVariantSuffix(variant)}`;
+}
+
+export function reportLockKey(companyKey: string, variant: ReportVariant = DEFAULT_REPORT_VARIANT): string {
+  return `lock:report:${companyKey}${reportVariantSuffix(variant)}`;
+}
+
+export function parseCachedReport(raw: string): CachedReport | null {
+  const text = raw.trim();
+  if (!text) return null;
+  if (text.startsWith('{')) {
+    try {
+      const data = JSON.parse(text) as Partial<CachedReport>;
+      if (typeof data?.report === 'string' && data.report.trim()) {
+        return {
+          report: data.report.trim(),
+          analysis: data.analysis ?? null,
+          sources: Array.isArray(data.sources) ? data.sources : [],
+          model: data.model ?? null,
+          generatedAt: typeof data.generatedAt === 'string' ? data.generatedAt : '',
+          lens: isLensId(data.lens) ? data.lens : DEFAULT_LENS_ID,
+          outputLanguage: isOutputLanguage(data.outputLanguage) ? data.outputLanguage : DEFAULT_OUTPUT_LANGUAGE,
+          newsEditions:
+            Array.isArray(data.newsEditions) && data.newsEditions.every(isNewsEditionId)
+              ? data.newsEditions
+              : DEFAULT_NEWS_EDITIONS,
+          timeWindow: timeWindowOf(data.timeWindow),
+          newsRange: typeof data.newsRange?.to === 'string' ? data.newsRange : null,
+        };
+      }
+    } catch {
+      // JSON でなければ旧形式として扱う
+    }
+  }
+  return { report: text, analysis: null, sources: [], model: null, generatedAt: '', newsRange: null, ...DEFAULT_REPORT_VARIANT };
+}
+
+function timeWindowOf(raw: unknown): TimeWindow {
+  // 保存済みの値なので、期間が未来かどうかは問わない
+  const parsed = parseTimeWindow(raw, Infinity);
+  return 'error' in parsed ? DEFAULT_TIME_WINDOW : parsed;
+}
+
+// プロンプト用の期間の説明（UTC の日付）
+function describeRange(range: NewsRange): string {
+  const day = (iso: string) => iso.slice(0, 10);
+  return range.from
+    ? `${day(range.from)} 〜 ${day(range.to)}（UTC）に公開された記事`
+    : '期間指定なし（検索で見つかった直近の記事）';
+}
+
+function buildReportPrompt(
+  companyName: string,
+  newsText: string,
+  lens: AnalysisLens,
+  outputLanguage: OutputLanguage,
+  range: NewsRange
+): string {
+  return (
+    `あなたは${lens.role}です。` +
+    `「${companyName}」について、直近ニュースを根拠にした分析レポートをMarkdownで作成してください。\n\n` +
+    `# 観点\n${lens.focus}\n\n` +
+    `# 対象期間\n` +
+    `- ${describeRange(range)}。今日は ${range.to.slice(0, 10)}（UTC）。\n` +
+    `- 記事は公開日時の古い順に番号を振ってある。各記事の「公開:」を踏まえて出来事を起きた順に整理し、日付が分かるものは日付を添える。\n` +
+    `- 古い記事の内容を現在の状況として書かない。\n\n` +
+    `# 必須構成\n` +
+    lens.sections.map((s) => `- ${s}\n`).join('') +
+    `- 参考文献（[番号] 記事タイトル の一覧）\n\n` +
+    `# 出典の付け方\n` +
+    `- 事実や数値を述べた文の末尾に、根拠となった記事の番号を [1] や [1][3] の形式で必ず付ける。\n` +
+    `- 番号は下の「ニュース本文」の各記事の先頭にある番号だけを使う。存在しない番号を作らない。\n` +
+    `- どの記事にも書かれていない内容は推測であることを明記し、番号を付けない。\n\n` +
+    `# 出力言語\n${OUTPUT_LANGUAGES[outputLanguage].instruction}\n\n` +
+    `# ニュース本文（抜粋）\n${newsText}`
+  );
+}
+
+/**
+ * Markdown レポートと構造化分析を並行して生成する（構造化分析の失敗はレポートを妨げない）
+ */
+export async function generateReport(
+  llm: LlmProvider,
+  companyName: string,
+  news: CollectedNews,
+  variant: ReportVariant = DEFAULT_REPORT_VARIANT,
+  trace?: Trace
+): Promise<{ result: CachedReport; generated: LlmGenerateResult }> {
+  const lens = getLens(variant.lens);
+  const timed = <T>(name: string, fn: () => Promise<T>) => (trace ? trace.span(name, fn) : fn());
+
+  const [generated, structured] = await Promise.all([
+    timed('generation.report', () => llm.generate(buildReportPrompt(companyName, news.combinedText, lens, variant.outputLanguage, news.range), { trace })),
+    timed('generation.structured', () =>
+      generateStructuredAnalysis(llm, {
+        companyName,
+        newsText: news.combinedText,
+        sourceCount: news.sources.length,
+        focus: lens.focus,
+        outputLanguage: variant.outputLanguage,
+        trace,
+      })
+    ).catch((e: any) => {
+      console.warn(`[WARN] structured analysis skipped: ${String(e?.message ?? e)}`);
+      return null;
+    }),
+  ]);
+
+  return {
+    result: {
+      report: generated.text.trim(),
+      analysis: structured?.analysis ?? null,
+      sources: news.sources,
+      model: { provider: generated.provider, name: generated.model, version: generated.version },
+      generatedAt: new Date().toISOString(),
+      newsRange: news.range,
+      ...variant,
+    },
+    generated,
+  };
+}
+
+export type AnalysisStage = NewsStage | 'generation' | 'caching';
+
+export type AnalysisOutcome =
+  | { ok: true; result: CachedReport; generated: LlmGenerateResult }
+  | { ok: false; status: 404; error: string };
+
+/**
+ * ニュース検索 → スクレイピング → 生成 → キャッシュ保存 までの一連の処理
+ * （キャッシュ確認とロックは呼び出し側の責務）
+ */
+export async function runAnalysis(opts: {
+  llm: LlmProvider;
+  companyName: string;
+  companyKey: string;
+  newsProviders: NewsProvider[];
+  variant?: ReportVariant;
+  onStage?: (stage: AnalysisStage) => Promise<void>;
+  trace?: Trace;
+}): Promise<AnalysisOutcome> {
+  const { llm, companyName, companyKey, newsProviders, variant = DEFAULT_REPORT_VARIANT, onStage, trace } = opts;
+  const timed = <T>(name: string, fn: () => Promise<T>) => (trace ? trace.span(name, fn) : fn());
+
+  // 1) ニュース検索 → 2) スクレイピング
+  const news = await collectNews(
+    newsSearchesFor(companyName, variant.newsEditions),
+    newsProviders,
+    onStage,
+    trace,
+    resolveTimeWindow(variant.timeWindow)
+  );
+  if (news.articleCount === 0) {
+    const inWindow = isDefaultTimeWindow(variant.timeWindow) ? '' : '指定した期間の';
+    return { ok: false, status: 404, error: `${inWindow}関連ニュースが見つかりませんでした。` };
+  }
+  if (!news.combinedText) {
+    return { ok: false, status: 404, error: '記事本文を取得できませんでした。' };
+  }
+
+  // 3) LLM（プロバイダは LLM_PROVIDER で切り替え）
+  await onStage?.('generation');
+  const { result, generated } = await generateReport(llm, companyName, news, variant, trace);
+  const picked = { provider: generated.provider, version: generated.version, model: generated.model };
+  if (trace) trace.log('info', 'LLM picked', picked);
+  else console.log('[DEBUG] LLM picked:', picked);
+
+  // 4) キャッシュ保存 + 版として履歴に残す（失敗しても本処理は成功扱い）
+  await onStage?.('caching');
+  try {
+    // 対象期間が短いほど早く古くなるので、キャッシュも短くする
+    const ttlSeconds = windowCacheTtlSeconds(variant.timeWindow, REPORT_TTL_SECONDS);
+    await timed('cache.write', () => kvSetEx(reportCacheKey(companyKey, variant), JSON.stringify(result), ttlSeconds));
+  } catch (e: any) {
+    console.warn(`[WARN] KV set skipped: ${String(e?.message ?? e)}`);
+  }
+  try {
+    await timed('history.write', () => saveReportVersion(companyKey, companyName, result));
+  } catch (e: any) {
+    console.warn(`[WARN] history save skipped: ${String(e?.message ?? e)}`);
+  }
+
+  return { ok: true, result, generated };
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { decodeHtml, detectCharset, extractArticle, MAX_ARTICLE_CHARS } from './article-extract.js';
+
+const ascii = (s: string) => new Uint8Array(Buffer.from(s, 'latin1'));
+
+// 句読点のある 120 字ほどの段落
+const paragraph = (n: number) =>
+  `第${n}段落。トヨタ自動車は、新型車の販売が国内外で好調に推移していると発表した。` +
+  `同社によると、電動車の比率は前年から大きく伸び、部品の供給も安定してきたという。` +
+  `一方で、為替の動きや原材料の価格には引き続き注意が必要だとしている。`;
+
+const articleHtml = (count: number) =>
+  Array.from({ length: count }, (_, i) => `<p>${paragraph(i + 1)}</p>`).join('\n');
+
+const page = (body: string, { bodyClass = '', head = '' } = {}) =>
+  `<!DOCTYPE html><html><head><title>t</title>${head}</head><body class="${bodyClass}">${body}</body></html>`;
+
+describe('detectCharset', () => {
+  it('prefers the Content-Type header', () => {
+    expect(detectCharset('text/html; charset=Shift_JIS', ascii('<meta charset="utf-8">'))).toBe('shift_jis');
+  });
+
+  it.each([
+    ['<meta charset="EUC-JP">', 'euc-jp'],
+    ['<meta http-equiv="Content-Type" content="text/html; charset=x-sjis">', 'shift_jis'],
+    ["<meta charset='windows-31j'>", 'shift_jis'],
+    ['<html><body>no meta</body></html>', 'utf-8'],
+  ])('falls back to the <meta> in %s', (head, expected) => {
+    expect(detectCharset('text/html', ascii(head))).toBe(expected);
+  });
+});
+
+describe('decodeHtml', () => {
+  it('decodes Shift_JIS and EUC-JP bytes', () => {
+    // 「トヨタ」
+    expect(decodeHtml(new Uint8Array([0x83, 0x67, 0x83, 0x88, 0x83, 0x5e]), 'shift_jis')).toBe('トヨタ');
+    expect(decodeHtml(new Uint8Array([0xa5, 0xc8, 0xa5, 0xe8, 0xa5, 0xbf]), 'euc-jp')).toBe('トヨタ');
+  });
+
+  it('reads unknown labels as UTF-8', () => {
+    expect(decodeHtml(new TextEncoder().encode('トヨタ'), 'x-unknown')).toBe('トヨタ');
+  });
+});
+
+describe('extractArticle', () => {
+  it('picks the article over navigation, cookie banners and link lists', () => {
+    const html = page(`
+      <nav><a href="/">ホーム</a><a href="/biz">経済</a></nav>
+      <div class="cookie-consent"><p>当サイトはクッキーを使用しています。詳しくはプライバシーポリシーをご覧ください。</p></div>
+      <div class="content"><article><h1>見出し</h1>${articleHtml(6)}</article></div>
+      <div class="related">${Array.from({ length: 10 }, (_, i) => `<a href="/n/${i}">関連記事のタイトルその${i}</a>`).join('')}</div>
+    `);
+    const result = extractArticle(html);
+    expect(result.method).toBe('readability');
+    expect(result.quality).toBe('full');
+    expect(result.text.startsWith('見出し\n第1段落。')).toBe(true);
+    expect(result.text).not.toMatch(/クッキー|関連記事|ホーム/);
+  });
+
+  it.each([
+    ['a sidebar class on <body>', page(`<div class="entry">${articleHtml(6)}</div>`, { bodyClass: 'single has-sidebar' })],
+    ['a layout wrapper with a side class', page(`<div class="l-side-wrap"><div class="entry">${articleHtml(6)}</div></div>`)],
+    ['an <article> inside an ad-labelled wrapper', page(`<div class="ad-wrap"><article>${articleHtml(6)}</article></div>`)],
+  ])('keeps the article under %s', (_name, html) => {
+    const result = extractArticle(html);
+    expect(result.method).toBe('readability');
+    expect(result.quality).toBe('full');
+    expect(result.text).toContain('第6段落。');
+  });
+
+  it('falls back to JSON-LD articleBody and flags isAccessibleForFree: false as paywalled', () => {
+    const jsonLd = {
+      '@context': 'https://schema.org',
+      '@graph': [{ '@type': 'NewsArticle', articleBody: paragraph(1).repeat(3), isAccessibleForFree: false }],
+    };
+    const html = page('<p>短い冒頭。</p>', { head: `<script type="application/ld+json">${JSON.stringify(jsonLd)}</script>` });
+    const result = extractArticle(html);
+    expect(result.method).toBe('json-ld');
+    expect(result.paywalled).toBe(true);
+    expect(result.quality).toBe('paywalled');
+  });
+
+  it('detects paywall phrases in the page text', () => {
+    const result = extractArticle(page(`<article>${articleHtml(2)}<p>この記事は会員限定です。</p></article>`));
+    expect(result.quality).toBe('paywalled');
+  });
+
+  it('falls back to og:description', () => {
+    const result = extractArticle(page('<div>写真</div>', { head: '<meta property="og:description" content="トヨタが新型車を発表した。">' }));
+    expect(result).toMatchObject({ method: 'og-description', quality: 'partial', text: 'トヨタが新型車を発表した。' });
+  });
+
+  it('grades empty, partial and full by length', () => {
+    expect(extractArticle(page('<div>写真</div>'))).toMatchObject({ method: 'none', quality: 'empty', text: '' });
+    expect(extractArticle(page(`<article>${articleHtml(2)}</article>`)).quality).toBe('partial');
+    expect(extractArticle(page(`<article>${articleHtml(4)}</article>`)).quality).toBe('full');
+  });
+
+  it('caps the text length', () => {
+    expect(extractArticle(page(`<article>${articleHtml(30)}</article>`)).text).toHaveLength(MAX_ARTICLE_CHARS);
+  });
+});
@@ -0,0 +1,292 @@
+// api/_lib/article-extract.ts
+// 記事ページから本文を取り出す（readability 風のスコアリング）
+//  - 文字コード: HTTP の Content-Type → <meta charset> / http-equiv の順に見て、Shift_JIS / EUC-JP も復号する
+//  - 本文: 段落を持つブロックを文章量・句読点・class/id でスコアリングし、リンクだらけのブロックは減点
+//  - 代替: JSON-LD の articleBody → og:description / meta description
+//  - 有料記事（ペイウォール）らしさを検出し、抽出の質と一緒に返す
+import * as cheerio from 'cheerio';
+
+export type ExtractionMethod = 'readability' | 'json-ld' | 'og-description' | 'none';
+
+// full: 本文を十分に取れた / partial: 一部だけ / paywalled: 有料記事で冒頭だけ / empty: 取れなかった
+export type ExtractionQuality = 'full' | 'partial' | 'paywalled' | 'empty';
+
+export type ArticleExtraction = {
+  text: string;
+  method: ExtractionMethod;
+  quality: ExtractionQuality;
+  paywalled: boolean;
+  charset: string;
+};
+
+// プロンプトに載せる 1 記事あたりの上限（文字数）
+export const MAX_ARTICLE_CHARS = 2000;
+
+// この文字数以上取れたら「本文を取れた」とみなす
+const FULL_TEXT_MIN_CHARS = 400;
+const READABILITY_MIN_CHARS = 200;
+const PARAGRAPH_MIN_CHARS = 20;
+
+/**
+ * ===== 文字コード =====
+ */
+const CHARSET_ALIASES: Record<string, string> = {
+  'shift-jis': 'shift_jis',
+  sjis: 'shift_jis',
+  'x-sjis': 'shift_jis',
+  'windows-31j': 'shift_jis',
+  cp932: 'shift_jis',
+  ms932: 'shift_jis',
+  'x-euc-jp': 'euc-jp',
+  eucjp: 'euc-jp',
+};
+
+function normalizeCharset(charset: string): string {
+  const c = charset.trim().replace(/^["']|["']$/g, '').toLowerCase();
+  return CHARSET_ALIASES[c] ?? c;
+}
+
+function charsetFromContentType(contentType: string): string | null {
+  const m = /charset\s*=\s*["']?([\w.:-]+)/i.exec(contentType);
+  return m ? normalizeCharset(m[1]) : null;
+}
+
+/**
+ * HTTP ヘッダ → 先頭 2KB の <meta> の順に文字コードを決める（不明なら utf-8）
+ */
+export function detectCharset(contentType: string, bytes: Uint8Array): string {
+  const fromHeader = charsetFromContentType(contentType);
+  if (fromHeader) return fromHeader;
+
+  // <meta> は ASCII なので latin1 で読めば十分
+  const head = Buffer.from(bytes.subarray(0, 2048)).toString('latin1');
+  // <meta charset="..."> と <meta http-equiv="Content-Type" content="...; charset=..."> の両方に当たる
+  const meta = /<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i.exec(head);
+  return meta ? normalizeCharset(meta[1]) : 'utf-8';
+}
+
+export function decodeHtml(bytes: Uint8Array, charset: string): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // 未対応のラベルは utf-8 として読む
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * ===== JSON-LD / meta =====
+ */
+type JsonLdInfo = { articleBody: string; paywalled: boolean };
+
+function readJsonLd($: cheerio.CheerioAPI): JsonLdInfo {
+  let articleBody = '';
+  let paywalled = false;
+
+  const visit = (node: any) => {
+    if (!node || typeof node !== 'object') return;
+    if (Array.isArray(node)) return node.forEach(visit);
+    if (typeof node.articleBody === 'string' && node.articleBody.length > articleBody.length) {
+      articleBody = node.articleBody;
+    }
+    if (node.isAccessibleForFree === false || node.isAccessibleForFree === 'False') paywalled = true;
+    if (node['@graph']) visit(node['@graph']);
+    if (node.hasPart) visit(node.hasPart);
+  };
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      visit(JSON.parse($(el).text()));
+    } catch {
+      // 壊れた JSON-LD は無視
+    }
+  });
+
+  return { articleBody: normalizeText(articleBody), paywalled };
+}
+
+function readMetaDescription($: cheerio.CheerioAPI): string {
+  const og = $('meta[property="og:description"]').attr('content');
+  const desc = $('meta[name="description"]').attr('content');
+  return normalizeText(og || desc || '');
+}
+
+/**
+ * ===== ペイウォール =====
+ */
+const PAYWALL_SELECTORS = [
+  '[class*="paywall"]',
+  '[id*="paywall"]',
+  '[class*="regwall"]',
+  '[class*="premium-content"]',
+  '[class*="member-only"]',
+  '[class*="subscriber-only"]',
+].join(', ');
+
+const PAYWALL_PHRASES = [
+  '有料会員限定',
+  '有料会員になると',
+  '会員限定記事',
+  '会員登録すると続き',
+  'この記事は会員限定',
+  '続きを読むには',
+  'ログインして続きを読む',
+  'subscribe to continue',
+  'subscribe to read',
+];
+
+function detectPaywall($: cheerio.CheerioAPI, jsonLdPaywalled: boolean): boolean {
+  if (jsonLdPaywalled) return true;
+  if ($(PAYWALL_SELECTORS).length > 0) return true;
+  const text = $('body').text().toLowerCase();
+  return PAYWALL_PHRASES.some((p) => text.includes(p));
+}
+
+/**
+ * ===== 本文スコアリング =====
+ */
+// メニュー・バナー類を示す class/id
+const NEGATIVE_HINT =
+  /(^|[-_\s])(nav|menu|header|footer|sidebar|side|aside|breadcrumb|cookie|consent|banner|ad|ads|advert|promo|share|social|sns|comment|related|recommend|ranking|popular|pickup|tag|widget|modal|popup|subscribe)([-_\s]|$)/i;
+// 本文らしい class/id
+const POSITIVE_HINT = /(article|body|content|entry|main|post|story|text|honbun|kiji|news-?detail)/i;
+
+const REMOVE_SELECTORS = 'script, style, noscript, template, iframe, svg, form, nav, header, footer, aside';
+
+function normalizeText(s: string): string {
+  return s.replace(/\s+/g, ' ').trim();
+}
+
+function hintOf($el: cheerio.Cheerio<any>): string {
+  return `${$el.attr('class') ?? ''} ${$el.attr('id') ?? ''}`;
+}
+
+function classWeight($el: cheerio.Cheerio<any>): number {
+  const hint = hintOf($el);
+  let w = 0;
+  if (POSITIVE_HINT.test(hint)) w += 25;
+  if (NEGATIVE_HINT.test(hint)) w -= 25;
+  const tag = ($el.prop('tagName') ?? '').toLowerCase();
+  if (tag === 'article' || tag === 'main') w += 10;
+  return w;
+}
+
+function linkDensity($: cheerio.CheerioAPI, $el: cheerio.Cheerio<any>): number {
+  const total = normalizeText($el.text()).length;
+  if (total === 0) return 1;
+  let linked = 0;
+  $el.find('a').each((_, a) => {
+    linked += normalizeText($(a).text()).length;
+  });
+  return linked / total;
+}
+
+function paragraphScore(text: string): number {
+  const commas = (text.match(/[、，,。]/g) ?? []).length;
+  return 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+}
+
+// class/id だけで消すのは、小さいかリンクだらけのブロックに限る
+// （<body class="has-sidebar"> や本文を包む "l-side-wrap" のようなレイアウト用の class で本文ごと消さないため）
+const NOISE_MAX_CHARS = 200;
+const NOISE_MIN_LINK_DENSITY = 0.5;
+
+function isNoiseBlock($: cheerio.CheerioAPI, el: any): boolean {
+  const $el = $(el);
+  const hint = hintOf($el);
+  if (!NEGATIVE_HINT.test(hint) || POSITIVE_HINT.test(hint)) return false;
+  if (el.tagName === 'html' || el.tagName === 'body') return false;
+  if ($el.find('article, main').length > 0) return false;
+  return normalizeText($el.text()).length < NOISE_MAX_CHARS || linkDensity($, $el) >= NOISE_MIN_LINK_DENSITY;
+}
+
+function extractByScoring($: cheerio.CheerioAPI): string {
+  $(REMOVE_SELECTORS).remove();
+  $('*')
+    .filter((_, el) => isNoiseBlock($, el))
+    .remove();
+
+  // 段落のスコアを親（全部）と祖父母（半分）に配る
+  const scores = new Map<any, number>();
+  const addScore = (el: any, score: number) => {
+    if (!el || el.type !== 'tag') return;
+    if (!scores.has(el)) scores.set(el, classWeight($(el)));
+    scores.set(el, (scores.get(el) ?? 0) + score);
+  };
+
+  // <br> で段落を区切るだけのサイトもあるので、<br> を持つ div も段落として数える
+  const seen = new Set<any>();
+  $('p, pre, td, div > br').each((_, el) => {
+    const node = el.tagName === 'br' ? el.parent : el;
+    if (!node || seen.has(node)) return;
+    seen.add(node);
+    const text = normalizeText($(node).text());
+    if (text.length < PARAGRAPH_MIN_CHARS) return;
+    const score = paragraphScore(text);
+    addScore(node.parent, score);
+    addScore(node.parent?.parent, score / 2);
+  });
+
+  let best: any = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, $(el)));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+  if (!best) return '';
+
+  // 見出し・段落ごとに改行を残して取り出す
+  const $best = $(best);
+  const blocks: string[] = [];
+  $best.find('h1, h2, h3, h4, p, li, pre, blockquote').each((_, el) => {
+    if ($(el).parents('p, li, blockquote').length > 0) return;
+    const text = normalizeText($(el).text());
+    if (text) blocks.push(text);
+  });
+  const text = blocks.join('\n');
+  return text.length >= normalizeText($best.text()).length / 2 ? text : normalizeText($best.text());
+}
+
+/**
+ * HTML から本文を取り出す。スコアリング → JSON-LD → og:description の順に使えるものを選ぶ
+ */
+export function extractArticle(html: string, charset = 'utf-8'): ArticleExtraction {
+  const $ = cheerio.load(html);
+
+  // script を消す前に JSON-LD と meta を読んでおく
+  const jsonLd = readJsonLd($);
+  const description = readMetaDescription($);
+  const paywalled = detectPaywall($, jsonLd.paywalled);
+
+  const scored = extractByScoring($);
+
+  // スコアリングで十分取れればそれを使い、足りなければ一番長いものを使う
+  let text = scored;
+  let method: ExtractionMethod = 'readability';
+  if (scored.length < READABILITY_MIN_CHARS) {
+    const fallbacks: Array<[string, ExtractionMethod]> = [
+      [jsonLd.articleBody, 'json-ld'],
+      [description, 'og-description'],
+    ];
+    for (const [candidate, m] of fallbacks) {
+      if (candidate.length > text.length) {
+        text = candidate;
+        method = m;
+      }
+    }
+  }
+
+  text = text.substring(0, MAX_ARTICLE_CHARS);
+
+  let quality: ExtractionQuality;
+  if (!text) quality = 'empty';
+  else if (paywalled) quality = 'paywalled';
+  else if (text.length >= FULL_TEXT_MIN_CHARS) quality = 'full';
+  else quality = 'partial';
+
+  if (!text) method = 'none';
+  return { text, method, quality, paywalled, charset };
+}
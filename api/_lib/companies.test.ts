@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeCompany, COMPANIES, findCompanyByAlias, normalizeAlias, suggestCompanies } from './companies.js';
+
+describe('normalizeAlias', () => {
+  it.each([
+    ['株式会社トヨタ自動車', 'トヨタ自動車'],
+    ['トヨタ自動車株式会社', 'トヨタ自動車'],
+    ['㈱トヨタ自動車', 'トヨタ自動車'],
+    ['（株）トヨタ自動車', 'トヨタ自動車'],
+    ['ＴＯＹＯＴＡ', 'toyota'],
+    ['Toyota Motor Corp.', 'toyotamotor'],
+    ['Sony Group, Inc.', 'sonygroup'],
+    ['Nippon Co., Ltd.', 'nippon'],
+    ['三菱ＵＦＪ・フィナンシャル', '三菱ufjフィナンシャル'],
+  ])('%s → %s', (input, expected) => {
+    expect(normalizeAlias(input)).toBe(expected);
+  });
+
+  it.each(['株式会社', '(株)', 'Inc.', 'Corp', ' , ・ '])('leaves nothing of %j', (input) => {
+    expect(normalizeAlias(input)).toBe('');
+  });
+});
+
+describe('alias table', () => {
+  it('maps every term to exactly one company', () => {
+    const owners = new Map<string, string>();
+    for (const c of COMPANIES) {
+      for (const term of [c.name, ...c.aliases, ...(c.exactAliases ?? []), c.symbol]) {
+        const key = normalizeAlias(term);
+        expect(key, `${c.symbol}: ${term}`).not.toBe('');
+        const owner = owners.get(key);
+        expect(owner === undefined || owner === c.symbol, `${term} is shared by ${owner} and ${c.symbol}`).toBe(true);
+        owners.set(key, c.symbol);
+      }
+    }
+  });
+
+  it.each([
+    ['トヨタ', '7203.T'],
+    ['7203', '7203.T'],
+    ['7203.T', '7203.T'],
+    ['TOYOTA MOTOR CORPORATION', '7203.T'],
+    ['au', '9433.T'],
+    ['TEL', '8035.T'],
+    ['Meta', 'META'],
+  ])('finds %s', (input, symbol) => {
+    expect(findCompanyByAlias(input)?.symbol).toBe(symbol);
+  });
+
+  it.each(['aut', 'tele', 'metal', 'トヨタ紡織'])('does not match %s', (input) => {
+    expect(findCompanyByAlias(input)).toBeNull();
+  });
+});
+
+describe('canonicalizeCompany', () => {
+  it('shares one id across spellings of a known company', () => {
+    const ids = ['トヨタ', 'トヨタ自動車株式会社', 'ＴＯＹＯＴＡ', '7203'].map((n) => canonicalizeCompany(n).id);
+    expect(new Set(ids)).toEqual(new Set(['7203.t']));
+    expect(canonicalizeCompany('トヨタ').name).toBe('トヨタ自動車');
+  });
+
+  it('keeps the spelling of unknown companies without the corporate form', () => {
+    expect(canonicalizeCompany('株式会社 さくらインターネット')).toEqual({
+      id: 'さくらインターネット',
+      name: 'さくらインターネット',
+      symbol: null,
+    });
+  });
+
+  it('returns an empty id when only a corporate form is given', () => {
+    expect(canonicalizeCompany('株式会社').id).toBe('');
+    expect(canonicalizeCompany('Inc.').id).toBe('');
+  });
+});
+
+describe('suggestCompanies', () => {
+  it('ranks exact matches first, then prefixes', () => {
+    const names = suggestCompanies('ソフトバンク').map((s) => s.name);
+    expect(names[0]).toBe('ソフトバンク');
+    expect(names).toContain('ソフトバンクグループ');
+  });
+
+  it('suggests short aliases only on an exact match', () => {
+    expect(suggestCompanies('a').map((s) => s.symbol)).not.toContain('9433.T');
+    expect(suggestCompanies('te').map((s) => s.symbol)).not.toContain('8035.T');
+    expect(suggestCompanies('au')[0]?.symbol).toBe('9433.T');
+    expect(suggestCompanies('tel')[0]?.symbol).toBe('8035.T');
+  });
+
+  it('matches tickers and securities codes from the start only', () => {
+    expect(suggestCompanies('t', COMPANIES.length).filter((s) => s.matched === s.symbol && s.symbol.endsWith('.T'))).toEqual([]);
+    expect(suggestCompanies('72')[0]).toMatchObject({ symbol: '7203.T', matched: '7203' });
+    expect(suggestCompanies('20').map((s) => s.symbol)).not.toContain('7203.T');
+    expect(suggestCompanies('7203.T')[0]?.symbol).toBe('7203.T');
+    expect(suggestCompanies('ts')[0]?.symbol).toBe('TSLA');
+  });
+});
@@ -0,0 +1,157 @@
+// api/_lib/companies.ts
+// 企業名 → ティッカーのローカル別名テーブルと、企業名の正規化。
+// Finnhub の symbol search は日本語の社名にほぼヒットしないため、主要銘柄はここで解決する。
+// 「トヨタ」「トヨタ自動車」「TOYOTA」「7203」を同じ企業 ID にまとめ、キャッシュ・ロック・ニュース検索で共有する。
+
+export type CompanyEntry = {
+  symbol: string; // Finnhub 形式（東証は "<証券コード>.T"）
+  name: string; // 表示名
+  aliases: string[]; // 社名の揺れ・英語名など（照合は normalizeAlias 後）
+  exactAliases?: string[]; // 短くてほかの語の一部になりやすい別名（入力補完でも完全一致のときだけ当てる）
+};
+
+export const COMPANIES: CompanyEntry[] = [
+  { symbol: '7203.T', name: 'トヨタ自動車', aliases: ['トヨタ', 'toyota', 'toyota motor'] },
+  { symbol: '7267.T', name: '本田技研工業', aliases: ['ホンダ', 'honda', 'honda motor'] },
+  { symbol: '7201.T', name: '日産自動車', aliases: ['日産', 'nissan', 'nissan motor'] },
+  { symbol: '6758.T', name: 'ソニーグループ', aliases: ['ソニー', 'sony', 'sony group'] },
+  { symbol: '9984.T', name: 'ソフトバンクグループ', aliases: ['ソフトバンクg', 'softbank group'] },
+  { symbol: '9434.T', name: 'ソフトバンク', aliases: ['softbank', 'softbank corp'] },
+  { symbol: '9432.T', name: '日本電信電話', aliases: ['ntt', 'nippon telegraph and telephone'] },
+  { symbol: '9433.T', name: 'KDDI', aliases: ['kddi'], exactAliases: ['au'] },
+  { symbol: '6861.T', name: 'キーエンス', aliases: ['keyence'] },
+  { symbol: '8035.T', name: '東京エレクトロン', aliases: ['tokyo electron'], exactAliases: ['tel'] },
+  { symbol: '6501.T', name: '日立製作所', aliases: ['日立', 'hitachi'] },
+  { symbol: '6752.T', name: 'パナソニック ホールディングス', aliases: ['パナソニック', 'panasonic'] },
+  { symbol: '7974.T', name: '任天堂', aliases: ['nintendo'] },
+  { symbol: '9983.T', name: 'ファーストリテイリング', aliases: ['ユニクロ', 'fast retailing', 'uniqlo'] },
+  { symbol: '8306.T', name: '三菱UFJフィナンシャル・グループ', aliases: ['三菱ufj', 'mufg'] },
+  { symbol: '8316.T', name: '三井住友フィナンシャルグループ', aliases: ['三井住友', 'smfg'] },
+  { symbol: '8411.T', name: 'みずほフィナンシャルグループ', aliases: ['みずほ', 'mizuho'] },
+  { symbol: '8058.T', name: '三菱商事', aliases: ['mitsubishi corp', 'mitsubishi corporation'] },
+  { symbol: '8031.T', name: '三井物産', aliases: ['mitsui', 'mitsui & co'] },
+  { symbol: '4063.T', name: '信越化学工業', aliases: ['信越化学', 'shin-etsu chemical'] },
+  { symbol: '4502.T', name: '武田薬品工業', aliases: ['武田薬品', 'takeda'] },
+  { symbol: '6098.T', name: 'リクルートホールディングス', aliases: ['リクルート', 'recruit'] },
+  { symbol: '6902.T', name: 'デンソー', aliases: ['denso'] },
+  { symbol: '6367.T', name: 'ダイキン工業', aliases: ['ダイキン', 'daikin'] },
+  { symbol: 'AAPL', name: 'Apple', aliases: ['アップル', 'apple inc'] },
+  { symbol: 'MSFT', name: 'Microsoft', aliases: ['マイクロソフト'] },
+  { symbol: 'GOOGL', name: 'Alphabet', aliases: ['グーグル', 'google', 'アルファベット'] },
+  { symbol: 'AMZN', name: 'Amazon.com', aliases: ['アマゾン', 'amazon'] },
+  { symbol: 'NVDA', name: 'NVIDIA', aliases: ['エヌビディア', 'nvidia'] },
+  { symbol: 'TSLA', name: 'Tesla', aliases: ['テスラ', 'tesla'] },
+  { symbol: 'META', name: 'Meta Platforms', aliases: ['メタ', 'facebook', 'フェイスブック'], exactAliases: ['meta'] },
+];
+
+/**
+ * ===== 正規化 =====
+ */
+// 法人格（前株・後株・略記）。㈱ や全角括弧は NFKC で "(株)" になる
+const CORPORATE_FORMS = /株式会社|有限会社|合同会社|\(株\)|\(有\)|\(同\)/g;
+// 英語の法人格（末尾のみ。"Inc." だけの入力も落とす）
+const ENGLISH_CORPORATE_FORMS = /(^|[\s,]+)(inc|corp|corporation|co\.?,?\s*ltd|ltd|plc)\.?$/i;
+
+/**
+ * 照合用の正規化: 全角/半角の統一（NFKC）、小文字化、法人格・空白・区切り記号の除去
+ */
+export function normalizeAlias(s: string): string {
+  return s
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(CORPORATE_FORMS, '')
+    .replace(ENGLISH_CORPORATE_FORMS, '')
+    .replace(/[\s・.,、'’]/g, '');
+}
+
+// 東証銘柄の証券コード（"7203.T" → "7203"）
+function securitiesCodeOf(c: CompanyEntry): string | null {
+  return c.symbol.endsWith('.T') ? c.symbol.slice(0, -2) : null;
+}
+
+// 照合に使う表記（社名・別名・ティッカー・証券コード）
+function termsOf(c: CompanyEntry): string[] {
+  const code = securitiesCodeOf(c);
+  return [c.name, ...c.aliases, ...(c.exactAliases ?? []), c.symbol, ...(code ? [code] : [])];
+}
+
+export function findCompanyByAlias(input: string): CompanyEntry | null {
+  const key = normalizeAlias(input);
+  if (!key) return null;
+  return COMPANIES.find((c) => termsOf(c).some((t) => normalizeAlias(t) === key)) ?? null;
+}
+
+/**
+ * ===== 正規の企業 ID =====
+ */
+export type CanonicalCompany = {
+  id: string; // キャッシュ・ロック・履歴のキーに使う（既知の企業はティッカー、それ以外は正規化した社名。法人格だけの入力なら空）
+  name: string; // 表示名・ニュース検索語
+  symbol: string | null; // 別名テーブルに無ければ null
+};
+
+export function canonicalizeCompany(input: string): CanonicalCompany {
+  const entry = findCompanyByAlias(input);
+  if (entry) return { id: entry.symbol.toLowerCase(), name: entry.name, symbol: entry.symbol };
+
+  // 未知の企業は法人格だけ落として、入力の表記をそのまま使う
+  const name = input.normalize('NFKC').replace(CORPORATE_FORMS, '').replace(/\s+/g, ' ').trim();
+  return { id: normalizeAlias(input), name: name || input.trim(), symbol: null };
+}
+
+/**
+ * ニュースの検索語。日本語以外のエディションでは英語表記で探す
+ * （表示名が英語ならそのまま、別名テーブルにあれば一番長い英語の別名。無ければ表示名）
+ */
+export function newsQueryOf(company: CanonicalCompany, lang: string): string {
+  if (lang === 'ja' || /^[\x20-\x7e]+$/.test(company.name)) return company.name;
+  const entry = company.symbol ? COMPANIES.find((c) => c.symbol === company.symbol) : null;
+  const latin = (entry?.aliases ?? []).filter((a) => /^[a-z][\x20-\x7e]*$/i.test(a));
+  return latin.sort((a, b) => b.length - a.length)[0] ?? company.name;
+}
+
+/**
+ * ===== 入力補完 =====
+ */
+export type CompanySuggestion = {
+  id: string;
+  name: string;
+  symbol: string;
+  matched: string; // 一致した表記（別名で当たったときの表示用）
+};
+
+/**
+ * 前方一致 → 部分一致の順に候補を返す（完全一致が先頭）
+ */
+export function suggestCompanies(input: string, limit = 8): CompanySuggestion[] {
+  const key = normalizeAlias(input);
+  if (!key) return [];
+
+  const hits: Array<{ rank: number; suggestion: CompanySuggestion }> = [];
+  for (const c of COMPANIES) {
+    // ティッカー・証券コードは先頭からだけ（"7203.T" の "t" などで東証銘柄が全部当たらないように）
+    const terms: Array<[string, 'partial' | 'prefix' | 'exact']> = [
+      ...[c.name, ...c.aliases].map((t): [string, 'partial'] => [t, 'partial']),
+      ...(c.exactAliases ?? []).map((t): [string, 'exact'] => [t, 'exact']),
+      [c.symbol, 'exact'],
+      [securitiesCodeOf(c) ?? c.symbol, 'prefix'],
+    ];
+    let best: { rank: number; term: string } | null = null;
+    for (const [term, match] of terms) {
+      const t = normalizeAlias(term);
+      const rank = t === key ? 0 : match === 'exact' ? -1 : t.startsWith(key) ? 1 : match === 'partial' && t.includes(key) ? 2 : -1;
+      if (rank >= 0 && (!best || rank < best.rank)) best = { rank, term };
+    }
+    if (best) {
+      hits.push({
+        rank: best.rank,
+        suggestion: { id: c.symbol.toLowerCase(), name: c.name, symbol: c.symbol, matched: best.term },
+      });
+    }
+  }
+
+  return hits
+    .sort((a, b) => a.rank - b.rank || a.suggestion.name.localeCompare(b.suggestion.name, 'ja'))
+    .slice(0, limit)
+    .map((h) => h.suggestion);
+}
@@ -0,0 +1,221 @@
+// api/_lib/comparison.ts
+// 複数企業の比較レポート。企業ごとの材料は analyze-company-news のキャッシュを優先し、
+// 無ければ同じニュース収集処理で集める。
+// 出力言語とニュースのエディションは企業分析と同じものを選べる（観点・対象期間は既定のまま）。
+import { normalizeCompanyKey, parseCachedReport, reportCacheKey } from './analysis.js';
+import { condenseReport } from './conversation.js';
+import { kvGetString } from './kv.js';
+import type { LlmGenerateResult, LlmProvider } from './llm.js';
+import type { NewsProvider } from './news-providers.js';
+import { OUTPUT_LANGUAGES, type NewsEditionId, type OutputLanguage } from './locales.js';
+import { collectNews, newsSearchesFor, type NewsSource } from './news.js';
+import { DEFAULT_REPORT_VARIANT, reportVariantSuffix, type ReportVariant } from './report-variant.js';
+import { asString, fail, generateJson, parseJsonObject } from './structured-analysis.js';
+
+export const MIN_COMPARE_COMPANIES = 2;
+export const MAX_COMPARE_COMPANIES = 5;
+export const COMPARISON_TTL_SECONDS = 86400;
+
+// 1 社あたりプロンプトに載せる材料の上限（文字数）
+const CONTEXT_CHARS_PER_COMPANY = 4000;
+
+export type CompanyContext = {
+  companyName: string;
+  origin: 'cache' | 'news' | 'none'; // 材料の出どころ
+  context: string;
+  sources: NewsSource[];
+};
+
+export type ComparisonRow = {
+  companyName: string;
+  sentimentScore: number; // -1 〜 1
+  sentimentLabel: 'positive' | 'neutral' | 'negative';
+  strengths: string[];
+  risks: string[];
+  outlook: string;
+};
+
+export type StructuredComparison = {
+  rows: ComparisonRow[];
+  summary: string;
+};
+
+export type ComparisonResult = {
+  companies: Array<{ companyName: string; origin: CompanyContext['origin']; sources: NewsSource[] }>;
+  report: string;
+  comparison: StructuredComparison | null; // 生成に失敗したら null
+  generatedAt: string;
+  outputLanguage?: OutputLanguage; // 古いキャッシュには無い（ja）
+  newsEditions?: NewsEditionId[]; // 古いキャッシュには無い（["ja-jp"]）
+};
+
+export type ComparisonOptions = Pick<ReportVariant, 'outputLanguage' | 'newsEditions'>;
+
+export const DEFAULT_COMPARISON_OPTIONS: ComparisonOptions = {
+  outputLanguage: DEFAULT_REPORT_VARIANT.outputLanguage,
+  newsEditions: DEFAULT_REPORT_VARIANT.newsEditions,
+};
+
+// 企業分析のキャッシュを探すときの組み合わせ
+const variantOf = (options: ComparisonOptions): ReportVariant => ({ ...DEFAULT_REPORT_VARIANT, ...options });
+
+// 既定の組み合わせは従来どおり compare:<企業キー>
+export function comparisonCacheKey(companyNames: string[], options: ComparisonOptions = DEFAULT_COMPARISON_OPTIONS): string {
+  return `compare:${companyNames.map(normalizeCompanyKey).sort().join(',')}${reportVariantSuffix(variantOf(options))}`;
+}
+
+/**
+ * 1 社分の材料を集める（同じ言語・エディションの分析キャッシュ → ニュース）。失敗しても例外にせず origin: 'none' にする。
+ */
+export async function gatherCompanyContext(
+  companyName: string,
+  newsProviders: NewsProvider[],
+  options: ComparisonOptions = DEFAULT_COMPARISON_OPTIONS
+): Promise<CompanyContext> {
+  try {
+    const raw = await kvGetString(reportCacheKey(normalizeCompanyKey(companyName), variantOf(options)));
+    const cached = typeof raw === 'string' ? parseCachedReport(raw) : null;
+    if (cached) {
+      return {
+        companyName,
+        origin: 'cache',
+        context: condenseReport(cached.report, CONTEXT_CHARS_PER_COMPANY),
+        sources: cached.sources,
+      };
+    }
+  } catch (e: any) {
+    console.warn(`[WARN] KV get skipped (${companyName}): ${String(e?.message ?? e)}`);
+  }
+
+  try {
+    const news = await collectNews(newsSearchesFor(companyName, options.newsEditions), newsProviders);
+    if (news.combinedText) {
+      return {
+        companyName,
+        origin: 'news',
+        context: news.combinedText.slice(0, CONTEXT_CHARS_PER_COMPANY),
+        sources: news.sources,
+      };
+    }
+  } catch (e: any) {
+    console.warn(`[WARN] news skipped (${companyName}): ${String(e?.message ?? e)}`);
+  }
+
+  return { companyName, origin: 'none', context: '', sources: [] };
+}
+
+const COMPARISON_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    rows: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          companyName: { type: 'string' },
+          sentimentScore: { type: 'number' },
+          sentimentLabel: { type: 'string', enum: ['positive', 'neutral', 'negative'] },
+          strengths: { type: 'array', items: { type: 'string' } },
+          risks: { type: 'array', items: { type: 'string' } },
+          outlook: { type: 'string' },
+        },
+        required: ['companyName', 'sentimentScore', 'sentimentLabel', 'strengths', 'risks', 'outlook'],
+      },
+    },
+    summary: { type: 'string' },
+  },
+  required: ['rows', 'summary'],
+};
+
+function asStrings(v: unknown, path: string): string[] {
+  if (!Array.isArray(v)) fail(path, 'an array of strings');
+  return v.map((s, i) => asString(s, `${path}[${i}]`));
+}
+
+export function parseStructuredComparison(text: string, companyNames: string[]): StructuredComparison {
+  const data = parseJsonObject(text);
+  if (!Array.isArray(data.rows)) fail('rows', 'an array');
+
+  const rows: ComparisonRow[] = data.rows.map((r: any, i: number) => {
+    const path = `rows[${i}]`;
+    if (typeof r?.sentimentScore !== 'number' || !Number.isFinite(r.sentimentScore)) {
+      fail(`${path}.sentimentScore`, 'a number');
+    }
+    if (!['positive', 'neutral', 'negative'].includes(r?.sentimentLabel)) {
+      fail(`${path}.sentimentLabel`, '"positive" | "neutral" | "negative"');
+    }
+    return {
+      companyName: asString(r.companyName, `${path}.companyName`),
+      sentimentScore: Math.max(-1, Math.min(1, r.sentimentScore)),
+      sentimentLabel: r.sentimentLabel,
+      strengths: asStrings(r.strengths, `${path}.strengths`),
+      risks: asStrings(r.risks, `${path}.risks`),
+      outlook: asString(r.outlook, `${path}.outlook`),
+    };
+  });
+
+  if (rows.length !== companyNames.length) {
+    fail('rows', `an array of ${companyNames.length} companies (${companyNames.join(', ')})`);
+  }
+
+  return { rows, summary: asString(data.summary, 'summary') };
+}
+
+function buildMaterials(contexts: CompanyContext[]): string {
+  return contexts
+    .map((c) => {
+      const label = c.origin === 'cache' ? '既存の分析レポート' : c.origin === 'news' ? 'ニュース本文（抜粋）' : '材料なし';
+      return `## ${c.companyName}（${label}）\n${c.context || '直近の情報を取得できませんでした。'}`;
+    })
+    .join('\n\n---\n\n');
+}
+
+/**
+ * Markdown の比較レポートと構造化データを並行して生成する
+ */
+export async function generateComparison(
+  llm: LlmProvider,
+  contexts: CompanyContext[],
+  outputLanguage: OutputLanguage = DEFAULT_REPORT_VARIANT.outputLanguage
+): Promise<{ report: string; comparison: StructuredComparison | null; generated: LlmGenerateResult }> {
+  const names = contexts.map((c) => c.companyName);
+  const materials = buildMaterials(contexts);
+
+  const reportPrompt =
+    `あなたはマーケットアナリストです。` +
+    `次の ${names.length} 社（${names.join('、')}）を、下の材料だけを根拠に比較する分析レポートをMarkdownで作成してください。\n\n` +
+    `# 必須構成\n` +
+    `- 比較表（行: 企業、列: 直近の主要トピック / ポジティブ要因 / ネガティブ要因 / 短期の注目点）を必ずMarkdownのテーブルで\n` +
+    `- 企業間の相対的な強み・弱み\n` +
+    `- 総括（投資家が次に確認すべき点）\n\n` +
+    `# 注意\n` +
+    `- 材料が無い企業は「情報不足」と明記し、推測で埋めない。\n` +
+    `- 材料中の [n] 形式の出典番号は企業ごとに別物なので、レポートには書き写さない。\n\n` +
+    `# 出力言語\n${OUTPUT_LANGUAGES[outputLanguage].instruction}\n\n` +
+    `# 材料\n${materials}`;
+
+  const jsonPrompt =
+    `あなたはマーケットアナリストです。` +
+    `次の ${names.length} 社（${names.join('、')}）を、下の材料だけを根拠に比較し、JSON で出力してください。\n\n` +
+    `# ルール\n` +
+    `- 次の JSON Schema に厳密に従い、JSON 以外の文字は出力しない。\n` +
+    `- rows は上に挙げた企業の順に、企業ごとに1行。companyName は上の表記のまま。\n` +
+    `- sentimentScore は -1（非常にネガティブ）〜 1（非常にポジティブ）の数値。\n` +
+    `- 文章は簡潔に。${OUTPUT_LANGUAGES[outputLanguage].instruction}（companyName と sentimentLabel は除く）\n\n` +
+    `# JSON Schema\n${JSON.stringify(COMPARISON_SCHEMA)}\n\n` +
+    `# 材料\n${materials}`;
+
+  const [generated, structured] = await Promise.all([
+    llm.generate(reportPrompt),
+    generateJson(llm, {
+      prompt: jsonPrompt,
+      schema: COMPARISON_SCHEMA,
+      parse: (text) => parseStructuredComparison(text, names),
+    }).catch((e: any) => {
+      console.warn(`[WARN] structured comparison skipped: ${String(e?.message ?? e)}`);
+      return null;
+    }),
+  ]);
+
+  return { report: generated.text.trim(), comparison: structured?.value ?? null, generated };
+}
@@ -0,0 +1,131 @@
+// api/_lib/conversation.ts
+// 追加質問の会話履歴を、文字数予算に収まるように LLM のメッセージへ組み立てる。
+import type { LlmMessage } from './llm.js';
+
+export type QaTurn = {
+  question: string;
+  answer: string;
+};
+
+export type ConversationBudget = {
+  total: number; // system + 履歴 + 質問 の合計上限（文字数）
+  report: number; // レポートに割り当てる上限
+  question: number; // 今回の質問の上限
+  digestAnswer: number; // 要約扱いにした古いターンの回答を残す長さ
+};
+
+export const DEFAULT_CONVERSATION_BUDGET: ConversationBudget = {
+  total: 24000,
+  report: 12000,
+  question: 2000,
+  digestAnswer: 200,
+};
+
+const MAX_HISTORY_TURNS = 50;
+
+function clampText(s: string, maxChars: number): string {
+  const t = String(s ?? '');
+  return t.length > maxChars ? t.slice(0, maxChars) : t;
+}
+
+/**
+ * リクエストボディの history を検証して QaTurn[] にする（不正な要素は捨てる）。
+ * 古い順で受け取り、多すぎる場合は新しい方を残す。
+ */
+export function parseHistory(raw: unknown): QaTurn[] {
+  if (!Array.isArray(raw)) return [];
+  const turns = raw
+    .filter((t: any) => typeof t?.question === 'string' && typeof t?.answer === 'string')
+    .map((t: any) => ({ question: t.question.trim(), answer: t.answer.trim() }))
+    .filter((t) => t.question !== '' && t.answer !== '');
+  return turns.slice(-MAX_HISTORY_TURNS);
+}
+
+/**
+ * レポートを見出し単位に分け、各セクションの先頭から予算を按分して残す。
+ * 単純に先頭から切ると後半のセクション（注目点など）が丸ごと消えるため。
+ */
+export function condenseReport(report: string, maxChars: number): string {
+  const text = report.trim();
+  if (text.length <= maxChars) return text;
+
+  const sections: string[] = [];
+  for (const line of text.split('\n')) {
+    if (/^#{1,6}\s/.test(line) || sections.length === 0) sections.push(line);
+    else sections[sections.length - 1] += `\n${line}`;
+  }
+
+  const marker = '\n…（省略）';
+  const perSection = Math.floor(maxChars / sections.length) - marker.length;
+  if (perSection <= 0) return clampText(text, maxChars);
+
+  return sections
+    .map((sec) => {
+      if (sec.length <= perSection) return sec;
+      const cut = sec.slice(0, perSection);
+      const lastBreak = cut.lastIndexOf('\n');
+      return (lastBreak > 0 ? cut.slice(0, lastBreak) : cut) + marker;
+    })
+    .join('\n');
+}
+
+function digestTurn(turn: QaTurn, answerChars: number): string {
+  const answer = turn.answer.replace(/\s+/g, ' ');
+  const short = answer.length > answerChars ? `${answer.slice(0, answerChars)}…` : answer;
+  return `- Q: ${turn.question.replace(/\s+/g, ' ')}\n  A: ${short}`;
+}
+
+/**
+ * 履歴を予算内に収める。
+ * - 新しいターンから順に、そのまま入るだけ messages に残す
+ * - 入りきらない古いターンは「質問＋回答の冒頭」だけの要約にして system に載せる
+ * - 要約も入りきらなければ古い方から捨てる
+ */
+export function buildConversation(opts: {
+  instructions: string;
+  report: string;
+  history: QaTurn[];
+  question: string;
+  budget?: ConversationBudget;
+}): { system: string; messages: LlmMessage[]; droppedTurns: number; digestedTurns: number } {
+  const budget = opts.budget ?? DEFAULT_CONVERSATION_BUDGET;
+  const report = condenseReport(opts.report, budget.report);
+  const question = clampText(opts.question, budget.question);
+
+  let remaining = budget.total - opts.instructions.length - report.length - question.length;
+
+  // 1) 新しい順にそのまま残す
+  const kept: QaTurn[] = [];
+  let i = opts.history.length - 1;
+  for (; i >= 0; i--) {
+    const turn = opts.history[i];
+    const size = turn.question.length + turn.answer.length;
+    if (size > remaining) break;
+    kept.unshift(turn);
+    remaining -= size;
+  }
+
+  // 2) 残りは要約（これも新しい順に入るだけ）
+  const digests: string[] = [];
+  for (; i >= 0; i--) {
+    const line = digestTurn(opts.history[i], budget.digestAnswer);
+    if (line.length + 1 > remaining) break;
+    digests.unshift(line);
+    remaining -= line.length + 1;
+  }
+  const droppedTurns = i + 1;
+
+  let system = `${opts.instructions}\n\n---これまでの分析レポート---\n${report}`;
+  if (digests.length > 0) {
+    system += `\n\n---これまでの質疑（古いものの要約）---\n${digests.join('\n')}`;
+  }
+
+  const messages: LlmMessage[] = [];
+  for (const turn of kept) {
+    messages.push({ role: 'user', content: turn.question });
+    messages.push({ role: 'assistant', content: turn.answer });
+  }
+  messages.push({ role: 'user', content: question });
+
+  return { system, messages, droppedTurns, digestedTurns: digests.length };
+}
@@ -0,0 +1,29 @@
+// api/_lib/finnhub.ts
+// Finnhub REST の共通処理（APIキーは FINNHUB_API_KEY）
+import { fetchWithTimeout } from './http.js';
+import { recordServedSpend } from './rate-limit.js';
+
+// 例: AAPL / 7203.T / BRK.B / ^N225 / BINANCE:BTCUSDT
+const SYMBOL_PATTERN = /^[A-Za-z0-9^][A-Za-z0-9.\-^=:]{0,29}$/;
+
+export function isValidSymbol(symbol: string): boolean {
+  return SYMBOL_PATTERN.test(symbol);
+}
+
+export async function finnhubGet<T>(
+  path: string,
+  params: Record<string, string | number>,
+  apiKey: string
+): Promise<T> {
+  const query = Object.entries(params)
+    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(String(v))}`)
+    .join('&');
+  const url = `https://finnhub.io/api/v1${path}?${query}&token=${encodeURIComponent(apiKey)}`;
+
+  const resp = await fetchWithTimeout(url, { method: 'GET' }, 8000);
+  await recordServedSpend('finnhub', resp.status);
+  if (!resp.ok) {
+    throw new Error(`Finnhub API エラー: ${resp.status}`);
+  }
+  return (await resp.json()) as T;
+}
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CachedReport } from './analysis.js';
+import { isValidVersionId, listReportVersions, saveReportVersion } from './history.js';
+import { kvListPush } from './kv.js';
+import { DEFAULT_REPORT_VARIANT, type ReportVariant } from './report-variant.js';
+
+function reportOf(variant: ReportVariant, generatedAt = '2026-10-19T01:23:45.678Z'): CachedReport {
+  return { report: '# r', analysis: null, sources: [], model: null, generatedAt, newsRange: null, ...variant };
+}
+
+const riskWeek: ReportVariant = { ...DEFAULT_REPORT_VARIANT, lens: 'risk', timeWindow: { preset: '7d' } };
+
+describe('report history', () => {
+  beforeEach(() => vi.stubEnv('KV_BACKEND', 'memory'));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('lists only the versions of the requested variant', async () => {
+    await saveReportVersion('co-a', 'A', reportOf(DEFAULT_REPORT_VARIANT));
+    await saveReportVersion('co-a', 'A', reportOf(riskWeek));
+
+    const defaults = await listReportVersions('co-a', DEFAULT_REPORT_VARIANT);
+    const risks = await listReportVersions('co-a', riskWeek);
+    expect(defaults).toHaveLength(1);
+    expect(defaults[0].lens).toBe('general');
+    expect(risks).toHaveLength(1);
+    expect(risks[0].timeWindow).toEqual({ preset: '7d' });
+  });
+
+  it('filters legacy entries of other variants out of the default list', async () => {
+    const legacy = { id: '20260101T000000Z', companyName: 'B', generatedAt: '2026-01-01T00:00:00Z', model: null, articleUrls: [] };
+    await kvListPush('history:co-b', JSON.stringify({ ...legacy, lens: 'risk' }), 30, 60);
+    await kvListPush('history:co-b', JSON.stringify(legacy), 30, 60);
+
+    const versions = await listReportVersions('co-b', DEFAULT_REPORT_VARIANT);
+    expect(versions).toHaveLength(1);
+    expect(versions[0].lens).toBeUndefined();
+  });
+
+  it('gives versions saved in the same millisecond distinct ids', async () => {
+    const a = await saveReportVersion('co-c', 'C', reportOf(DEFAULT_REPORT_VARIANT));
+    const b = await saveReportVersion('co-c', 'C', reportOf(DEFAULT_REPORT_VARIANT));
+    expect(a.id).not.toBe(b.id);
+    expect(a.id).toMatch(/^20261019T012345678Z-/);
+    expect(isValidVersionId(a.id)).toBe(true);
+  });
+
+  it('still accepts version ids of the old format', () => {
+    expect(isValidVersionId('20260119T012345Z')).toBe(true);
+    expect(isValidVersionId('../etc')).toBe(false);
+  });
+});
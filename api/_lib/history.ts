@@ -0,0 +1,87 @@
+// api/_lib/history.ts
+// 分析レポートの版管理。report:<companyKey> は最新版のキャッシュとして上書きされるので、
+// 生成のたびに別キーへ版として残し、一覧（新しい順のリスト）から辿れるようにする。
+// 一覧は組み合わせ（観点・言語・エディション・期間）ごとに分ける（違う組み合わせの版どうしを比べないため）。
+//  - history:<companyKey><variantSuffix>   … 版のメタデータ（JSON）のリスト（既定の組み合わせは history:<companyKey>）
+//  - report:<companyKey>:v:<versionId>     … 版の本体（CachedReport）
+import type { CachedReport, ReportModel } from './analysis.js';
+import { kvGetString, kvListPush, kvListRange, kvSetEx, randomId } from './kv.js';
+import { isSameReportVariant, reportVariantSuffix, type ReportVariant } from './report-variant.js';
+
+export const MAX_REPORT_VERSIONS = 30;
+export const REPORT_VERSION_TTL_SECONDS = 86400 * 90;
+
+export type ReportVersionMeta = {
+  id: string; // 例: "20260119T012345678Z-1a2b3c4d"（古い版は "20260119T012345Z"）
+  companyName: string;
+  generatedAt: string;
+  model: ReportModel | null;
+  articleUrls: string[];
+} & Partial<ReportVariant>; // 古い版には無い（既定の組み合わせ）
+
+export type ReportVersion = ReportVersionMeta & CachedReport;
+
+function historyKey(companyKey: string, variant: ReportVariant): string {
+  return `history:${companyKey}${reportVariantSuffix(variant)}`;
+}
+
+function versionKey(companyKey: string, id: string): string {
+  return `report:${companyKey}:v:${id}`;
+}
+
+// ISO8601 から記号を除いた、ソートしてもそのまま時系列になる ID。
+// 同じミリ秒に別の組み合わせの版が保存されても本体のキーがぶつからないよう、乱数を足す。
+function versionIdOf(generatedAt: string): string {
+  const stamp = generatedAt.replace(/[-:.]/g, '');
+  return `${stamp}-${randomId().replace(/-/g, '').slice(-8)}`;
+}
+
+export function isValidVersionId(id: string): boolean {
+  return /^\d{8}T\d{6}(\d{3})?Z(-[0-9a-z]{8})?$/.test(id);
+}
+
+export async function saveReportVersion(
+  companyKey: string,
+  companyName: string,
+  report: CachedReport
+): Promise<ReportVersionMeta> {
+  const generatedAt = report.generatedAt || new Date().toISOString();
+  const meta: ReportVersionMeta = {
+    id: versionIdOf(generatedAt),
+    companyName,
+    generatedAt,
+    model: report.model,
+    lens: report.lens,
+    outputLanguage: report.outputLanguage,
+    newsEditions: report.newsEditions,
+    timeWindow: report.timeWindow,
+    articleUrls: report.sources.map((s) => s.url).filter((u) => u),
+  };
+
+  // 本体を先に書く（一覧にあるのに本体が無い状態を避ける）
+  await kvSetEx(versionKey(companyKey, meta.id), JSON.stringify({ ...meta, ...report }), REPORT_VERSION_TTL_SECONDS);
+  await kvListPush(historyKey(companyKey, report), JSON.stringify(meta), MAX_REPORT_VERSIONS, REPORT_VERSION_TTL_SECONDS);
+  return meta;
+}
+
+// 組み合わせで分ける前の一覧（history:<companyKey>）には他の組み合わせの版も混ざっているので、ここでも絞り込む
+// （期間を記録していない古い版は期間指定なしとして扱う）
+export async function listReportVersions(companyKey: string, variant: ReportVariant): Promise<ReportVersionMeta[]> {
+  const items = await kvListRange(historyKey(companyKey, variant), 0, MAX_REPORT_VERSIONS - 1);
+  const metas: ReportVersionMeta[] = [];
+  for (const item of items) {
+    try {
+      const meta = JSON.parse(item) as ReportVersionMeta;
+      if (isSameReportVariant(meta, variant)) metas.push(meta);
+    } catch {
+      // 壊れた要素は飛ばす
+    }
+  }
+  return metas;
+}
+
+export async function getReportVersion(companyKey: string, id: string): Promise<ReportVersion | null> {
+  const raw = await kvGetString(versionKey(companyKey, id));
+  if (!raw) return null;
+  return JSON.parse(raw) as ReportVersion;
+}
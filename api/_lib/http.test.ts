@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchStreaming, readSseData } from './http.js';
+
+function stubFetch(chunks: string[]) {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async () => new Response(new Blob(chunks).stream(), { status: 200 }))
+  );
+}
+
+describe('fetchStreaming', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('detaches from the caller signal once the body has been read', async () => {
+    stubFetch(['a', 'b']);
+    const caller = new AbortController();
+    const remove = vi.spyOn(caller.signal, 'removeEventListener');
+
+    const res = await fetchStreaming('http://llm.test/stream', {}, 1000, caller.signal);
+    expect(remove).not.toHaveBeenCalled(); // 読み終えるまでは切断を伝える
+    expect(await res.text()).toBe('ab');
+    expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  it('detaches when the reader cancels the body', async () => {
+    stubFetch(['a', 'b']);
+    const caller = new AbortController();
+    const remove = vi.spyOn(caller.signal, 'removeEventListener');
+
+    const res = await fetchStreaming('http://llm.test/stream', {}, 1000, caller.signal);
+    await res.body!.cancel();
+    expect(remove).toHaveBeenCalledTimes(1);
+  });
+
+  it('detaches when the request itself fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Promise.reject(new TypeError('fetch failed'))));
+    const caller = new AbortController();
+    const remove = vi.spyOn(caller.signal, 'removeEventListener');
+
+    await expect(fetchStreaming('http://llm.test/stream', {}, 1000, caller.signal)).rejects.toThrow('fetch failed');
+    expect(remove).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts the upstream request while the body is still streaming', async () => {
+    let upstream: AbortSignal | undefined;
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_url: string, init: RequestInit) => {
+        upstream = init.signal!;
+        return new Response(new ReadableStream({ start() {} }), { status: 200 });
+      })
+    );
+    const caller = new AbortController();
+
+    await fetchStreaming('http://llm.test/stream', {}, 1000, caller.signal);
+    caller.abort();
+    expect(upstream?.aborted).toBe(true);
+  });
+});
+
+describe('readSseData', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  const collect = async (chunks: string[]) => {
+    const out: string[] = [];
+    for await (const data of readSseData(new Blob(chunks).stream())) out.push(data);
+    return out;
+  };
+
+  it('joins multi-line data and ignores other fields', async () => {
+    expect(await collect(['event: delta\ndata: a\ndata: b\n\n', 'id: 1\r\ndata: c\r\n\r\n'])).toEqual(['a\nb', 'c']);
+  });
+
+  it('keeps events split across chunks', async () => {
+    expect(await collect(['data: hel', 'lo\n', '\ndata: world\n\n'])).toEqual(['hello', 'world']);
+  });
+
+  it('keeps a trailing event without a blank line after it', async () => {
+    expect(await collect(['data: a\n\ndata: b'])).toEqual(['a', 'b']);
+  });
+
+  it('cancels the body and detaches from the caller when the reader stops early', async () => {
+    // [DONE] のあとも上流が接続を閉じない場合
+    let cancelled = false;
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        async () =>
+          new Response(
+            new ReadableStream({
+              start(ctrl) {
+                ctrl.enqueue(new TextEncoder().encode('data: a\n\ndata: [DONE]\n\n'));
+              },
+              cancel() {
+                cancelled = true;
+              },
+            }),
+            { status: 200 }
+          )
+      )
+    );
+    const caller = new AbortController();
+    const remove = vi.spyOn(caller.signal, 'removeEventListener');
+
+    const res = await fetchStreaming('http://llm.test/stream', {}, 1000, caller.signal);
+    const out: string[] = [];
+    for await (const data of readSseData(res.body!)) {
+      if (data === '[DONE]') break;
+      out.push(data);
+    }
+    expect(out).toEqual(['a']);
+    expect(cancelled).toBe(true);
+    expect(remove).toHaveBeenCalledTimes(1);
+  });
+});
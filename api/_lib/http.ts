@@ -0,0 +1,119 @@
+// api/_lib/http.ts
+// api/ 配下で共有する HTTP ユーティリティ（"_" 始まりのため Vercel の関数にはならない）
+
+export async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+/**
+ * ストリーミング用 fetch。
+ * - timeoutMs はレスポンスヘッダが返るまでの時間（本文の受信中は打ち切らない）
+ * - signal が abort されたら（クライアント切断など）上流のリクエストも止める
+ *   （本文を読み終えた / 読むのをやめた時点で signal の listener は外す）
+ */
+export async function fetchStreaming(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  const detach = () => signal?.removeEventListener('abort', onAbort);
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const t = setTimeout(() => controller.abort(), timeoutMs);
+  let attached = false;
+  try {
+    const res = await fetch(url, { ...init, signal: controller.signal });
+    attached = res.body !== null;
+    return attached ? withBodyEnd(res, detach) : res;
+  } finally {
+    clearTimeout(t);
+    if (!attached) detach();
+  }
+}
+
+// 本文の終わり（読み切り・エラー・cancel）で onEnd を 1 回呼ぶ Response にする
+function withBodyEnd(res: Response, onEnd: () => void): Response {
+  const reader = res.body!.getReader();
+  let ended = false;
+  const end = () => {
+    if (ended) return;
+    ended = true;
+    onEnd();
+  };
+  const body = new ReadableStream<Uint8Array>({
+    async pull(ctrl) {
+      try {
+        const { value, done } = await reader.read();
+        if (done) {
+          end();
+          ctrl.close();
+        } else {
+          ctrl.enqueue(value);
+        }
+      } catch (e) {
+        end();
+        ctrl.error(e);
+      }
+    },
+    cancel(reason) {
+      end();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+}
+
+/**
+ * Server-Sent Events の本文を読み、各イベントの data 部分を順に返す。
+ * （event/id などのフィールドは使わないので捨てる）
+ * 途中で抜けたとき（[DONE] で break した・呼び出し側が読むのをやめた）は本文を cancel して上流の接続を閉じる。
+ */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  const dataOf = (block: string) =>
+    block
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+
+      let sep: number;
+      while ((sep = buffer.search(/\r?\n\r?\n/)) !== -1) {
+        const block = buffer.slice(0, sep);
+        buffer = buffer.slice(sep).replace(/^\r?\n\r?\n/, '');
+        const data = dataOf(block);
+        if (data) yield data;
+      }
+    }
+
+    // 末尾に空行の無いイベントも捨てない
+    const data = dataOf(buffer + decoder.decode());
+    if (data) yield data;
+  } finally {
+    if (!finished) await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,65 @@
+// api/_lib/jobs.ts
+// 分析ジョブ。POST はジョブIDだけ返して処理はバックグラウンドで続け、
+// 進捗と結果は job:<id> に書き込む（クライアントは analysis-status でポーリング）。
+// 同じ企業の分析ロックの値にジョブIDを入れておくことで、後から来た呼び出しが相乗りできる。
+import type { AnalysisStage, CachedReport } from './analysis.js';
+import { kvGetString, kvSetEx, randomId } from './kv.js';
+import type { ResponseMeta } from './trace.js';
+
+export const JOB_TTL_SECONDS = 3600;
+// ロックはジョブ実行中ずっと保持する（生成が長引いても切れないよう余裕を持たせる）
+export const JOB_LOCK_TTL_SECONDS = 300;
+
+export type AnalysisJobStage = 'queued' | AnalysisStage | 'done';
+
+export type AnalysisJob = {
+  id: string;
+  companyName: string;
+  status: 'running' | 'succeeded' | 'failed';
+  stage: AnalysisJobStage;
+  createdAt: string;
+  updatedAt: string;
+  result?: CachedReport;
+  error?: string;
+  errorStatus?: number; // 同期実行していたら返していた HTTP ステータス
+  meta?: ResponseMeta; // ジョブを始めたリクエストの計測結果（終わったときに入る）
+};
+
+function jobKey(id: string): string {
+  return `job:${id}`;
+}
+
+export function isValidJobId(id: string): boolean {
+  return /^[A-Za-z0-9-]{8,64}$/.test(id);
+}
+
+export function newJob(companyName: string): AnalysisJob {
+  const now = new Date().toISOString();
+  return { id: randomId(), companyName, status: 'running', stage: 'queued', createdAt: now, updatedAt: now };
+}
+
+export async function saveJob(job: AnalysisJob): Promise<void> {
+  await kvSetEx(jobKey(job.id), JSON.stringify(job), JOB_TTL_SECONDS);
+}
+
+export async function getJob(id: string): Promise<AnalysisJob | null> {
+  const raw = await kvGetString(jobKey(id));
+  return raw ? (JSON.parse(raw) as AnalysisJob) : null;
+}
+
+/**
+ * ジョブを更新して保存する。進捗の書き込みに失敗しても処理自体は止めない。
+ */
+export async function updateJob(job: AnalysisJob, patch: Partial<AnalysisJob>): Promise<void> {
+  Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+  try {
+    await saveJob(job);
+  } catch (e: any) {
+    console.warn(`[WARN] job update skipped (${job.id}): ${String(e?.message ?? e)}`);
+  }
+}
+
+// クライアントに返すジョブの要約（結果本体は含めない）
+export function jobHandle(job: AnalysisJob, attached: boolean) {
+  return { jobId: job.id, status: job.status, stage: job.stage, attached };
+}
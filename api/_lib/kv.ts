@@ -0,0 +1,85 @@
+// api/_lib/kv.ts
+// KV キャッシュと分散ロック。全 API ルートで共有する。
+// 保存先（Upstash / メモリ / ファイル）は storage.ts の getKvStore() が選ぶ。KV が無ければ何もしない。
+import { randomUUID } from 'crypto';
+import { getKvStore, type KvCommand } from './storage.js';
+
+/**
+ * ===== KV =====
+ */
+export function hasKvStore(): boolean {
+  return getKvStore() !== null;
+}
+
+export function isRateLimitLike(msg: string): boolean {
+  const m = msg.toLowerCase();
+  return m.includes('rate-limited') || m.includes('max daily request') || m.includes('temporarily rate-limited');
+}
+
+export async function kvGetString(key: string): Promise<string | null> {
+  const results = await kvPipeline([['GET', key]]);
+  const value = results?.[0];
+  return typeof value === 'string' ? value : null;
+}
+
+export async function kvSetEx(key: string, value: string, ttlSeconds: number): Promise<void> {
+  await kvPipeline([['SETEX', key, ttlSeconds, value]]);
+}
+
+export async function kvDel(key: string): Promise<void> {
+  await kvPipeline([['DEL', key]]);
+}
+
+/**
+ * 任意のコマンドをまとめて送る（専用ヘルパーが無いコマンド用）
+ * - 戻り値は各コマンドの result（KV 未設定なら null）
+ * - どれか 1 つでも error なら例外
+ */
+export async function kvPipeline(commands: KvCommand[]): Promise<unknown[] | null> {
+  const store = getKvStore();
+  if (!store) return null;
+  return store.pipeline(commands);
+}
+
+/**
+ * リストの先頭に追加し、maxLen 件を超えた古い要素を捨てる（新しい順のリスト）
+ */
+export async function kvListPush(key: string, value: string, maxLen: number, ttlSeconds: number): Promise<void> {
+  await kvPipeline([
+    ['LPUSH', key, value],
+    ['LTRIM', key, 0, maxLen - 1],
+    ['EXPIRE', key, ttlSeconds],
+  ]);
+}
+
+export async function kvListRange(key: string, start: number, stop: number): Promise<string[]> {
+  const results = await kvPipeline([['LRANGE', key, start, stop]]);
+  const list = results?.[0];
+  return Array.isArray(list) ? list.filter((v): v is string => typeof v === 'string') : [];
+}
+
+/**
+ * ===== Distributed Lock =====
+ * SET lockKey lockVal NX EX ttlSeconds
+ * - 取れなければ「誰かが実行中」
+ * - releaseは「自分のlockValと一致する場合のみDEL」（比較と削除はアトミック）
+ * - lockVal を指定すると、取れなかった側が GET で保持者を特定できる（ジョブIDなど）
+ */
+export function randomId(): string {
+  return typeof randomUUID === 'function'
+    ? randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+export async function acquireLock(lockKey: string, ttlSeconds: number, lockVal: string = randomId()): Promise<string | null> {
+  const results = await kvPipeline([['SET', lockKey, lockVal, 'NX', 'EX', ttlSeconds]]);
+  // 取得できたら "OK"。取れないと null
+  return results?.[0] === 'OK' ? lockVal : null;
+}
+
+export async function releaseLock(lockKey: string, lockVal: string): Promise<boolean> {
+  const store = getKvStore();
+  if (!store) return false;
+  // GET してから DEL だと、その間に期限切れ → 別の呼び出しが取ったロックを消してしまう
+  return store.compareAndDelete(lockKey, lockVal);
+}
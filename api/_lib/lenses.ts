@@ -0,0 +1,97 @@
+// api/_lib/lenses.ts
+// 分析の観点（レンズ）。レンズごとにアナリストの立場・重視する点・レポートの必須構成を持つ。
+// キャッシュ・ロック・履歴はレンズ別に分ける（general は従来どおりのキー）。
+export type AnalysisLensId = 'general' | 'risk' | 'esg' | 'competition' | 'earnings';
+
+export type AnalysisLens = {
+  id: AnalysisLensId;
+  label: string; // 画面に出す名前
+  description: string; // 選択肢の補足
+  labelEn: string; // 英語の画面用
+  descriptionEn: string;
+  role: string; // プロンプト冒頭の「あなたは〜です」
+  focus: string; // 何を重視して読むか（構造化分析のプロンプトにも載せる）
+  sections: string[]; // レポートの必須構成（参考文献は全レンズ共通で末尾に付ける）
+};
+
+export const DEFAULT_LENS_ID: AnalysisLensId = 'general';
+
+export const ANALYSIS_LENSES: Record<AnalysisLensId, AnalysisLens> = {
+  general: {
+    id: 'general',
+    label: '投資家向け総合',
+    description: '主要トピックと強気・弱気材料、今後の注目点',
+    labelEn: 'Investor overview',
+    descriptionEn: 'Key topics, bullish and bearish factors, what to watch',
+    role: 'マーケットアナリスト',
+    focus: '株価や業績に影響しうる材料を、ポジティブ・ネガティブの両面から偏りなく拾う。',
+    sections: ['主要トピック（箇条書き）', 'ポジティブ要因 / ネガティブ要因', '今後の注目点（短期/中期）'],
+  },
+  risk: {
+    id: 'risk',
+    label: 'リスク・コンプライアンス',
+    description: '法令違反・訴訟・リコール・ガバナンス上の懸念',
+    labelEn: 'Risk & compliance',
+    descriptionEn: 'Legal breaches, litigation, recalls and governance concerns',
+    role: 'リスク管理・コンプライアンスの担当アナリスト',
+    focus: '不祥事・訴訟・規制当局の動き・リコール・情報漏えい・ガバナンス上の問題など、下振れリスクを重視する。',
+    sections: [
+      '検出されたリスク事象（箇条書き、深刻度 高/中/低 を付ける）',
+      '規制・法務面の動き',
+      'ガバナンス・内部統制上の懸念',
+      '想定される影響と今後の確認事項',
+    ],
+  },
+  esg: {
+    id: 'esg',
+    label: 'ESG',
+    description: '環境・社会・ガバナンスの取り組みと論点',
+    labelEn: 'ESG',
+    descriptionEn: 'Environmental, social and governance initiatives and issues',
+    role: 'ESG アナリスト',
+    focus: '環境（脱炭素・資源）、社会（人権・労働・地域）、ガバナンス（取締役会・株主還元・開示）の観点で評価する。',
+    sections: ['環境（E）', '社会（S）', 'ガバナンス（G）', 'ESG 上の評価と今後の論点'],
+  },
+  competition: {
+    id: 'competition',
+    label: '競合環境',
+    description: '競合他社・市場シェア・業界構造の変化',
+    labelEn: 'Competitive landscape',
+    descriptionEn: 'Competitors, market share and shifts in industry structure',
+    role: '業界アナリスト',
+    focus: '競合他社との比較、市場シェア、新規参入や提携・買収、技術や価格競争など業界内での立ち位置を重視する。',
+    sections: ['主な競合と比較のポイント', '市場シェア・業界構造の変化', '提携・買収・新規参入の動き', '競争上の強み / 弱み'],
+  },
+  earnings: {
+    id: 'earnings',
+    label: '決算プレビュー',
+    description: '次の決算に向けた業績ドライバーと市場の期待',
+    labelEn: 'Earnings preview',
+    descriptionEn: 'Earnings drivers and market expectations ahead of the next results',
+    role: '決算を担当するセルサイドアナリスト',
+    focus: '売上・利益・ガイダンスに効く要因（為替・販売数量・価格・コスト）と、市場の期待とのずれを重視する。',
+    sections: [
+      '直近の業績・ガイダンスの振り返り',
+      '次の決算に効く要因（上振れ / 下振れ）',
+      '市場の期待と注目される指標',
+      '決算発表で確認すべき点',
+    ],
+  },
+};
+
+export function isLensId(v: unknown): v is AnalysisLensId {
+  return typeof v === 'string' && Object.prototype.hasOwnProperty.call(ANALYSIS_LENSES, v);
+}
+
+export function getLens(id: AnalysisLensId = DEFAULT_LENS_ID): AnalysisLens {
+  return ANALYSIS_LENSES[id];
+}
+
+// 画面に渡す一覧（プロンプト用の文言は含めない）
+export function listLenses(locale: 'ja' | 'en' = 'ja'): Array<Pick<AnalysisLens, 'id' | 'label' | 'description'>> {
+  return Object.values(ANALYSIS_LENSES).map((l) =>
+    locale === 'en'
+      ? { id: l.id, label: l.labelEn, description: l.descriptionEn }
+      : { id: l.id, label: l.label, description: l.description }
+  );
+}
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCircuitBreaker, isRetryableLlmError, llmErrorStatus, withBackoff } from './llm-resilience.js';
+
+// Gemini の 429 と同じ形（RetryInfo で待ち時間を指定して、待ち時間を決まった値にする）
+const rateLimited = () => new Error('Gemini generateContent failed (v1beta/m): 429 {"retryDelay": "1s"}');
+
+describe('isRetryableLlmError', () => {
+  it.each([
+    'Gemini generateContent failed (v1beta/m): 429 {}',
+    'Gemini generateContent failed (v1beta/m): 503 {}',
+    '{"status": "RESOURCE_EXHAUSTED"}',
+    '{"status": "UNAVAILABLE"}',
+    'The model is overloaded.',
+  ])('retries %s', (msg) => {
+    expect(isRetryableLlmError(msg)).toBe(true);
+  });
+
+  it.each([
+    'Gemini generateContent failed (v1beta/m): 500 {"status": "INTERNAL"}',
+    'Gemini generateContent failed (v1beta/m): 400 {}',
+    'Gemini generateContent failed (v1beta/m): 403 {}',
+  ])('does not retry %s', (msg) => {
+    expect(isRetryableLlmError(msg)).toBe(false);
+  });
+
+  it('maps exhausted retries to 503 and everything else to 500', () => {
+    expect(llmErrorStatus(rateLimited())).toBe(503);
+    expect(llmErrorStatus(new Error('x: 500 boom'))).toBe(500);
+  });
+});
+
+describe('withBackoff', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('retries rate limits up to LLM_MAX_RETRIES and then rethrows', async () => {
+    vi.stubEnv('LLM_MAX_RETRIES', '2');
+    const fn = vi.fn(async () => {
+      throw rateLimited();
+    });
+    const done = expect(withBackoff(fn, 'test')).rejects.toThrow(': 429');
+    await vi.advanceTimersByTimeAsync(2000);
+    await done;
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries network errors and timeouts', async () => {
+    const fn = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockRejectedValueOnce(new DOMException('This operation was aborted', 'AbortError'))
+      .mockResolvedValue('ok');
+    const result = withBackoff(fn, 'test');
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(await result).toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other errors', async () => {
+    const fn = vi.fn(async () => {
+      throw new Error('x: 500 internal');
+    });
+    await expect(withBackoff(fn, 'test')).rejects.toThrow(': 500');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting as soon as the signal is aborted', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn(async () => {
+      throw rateLimited();
+    });
+    const done = expect(withBackoff(fn, 'test', controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(100); // 1 回目が失敗して待ちに入る
+    controller.abort();
+    await done;
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
+
+describe('createCircuitBreaker', () => {
+  // KV はテスト間で共有されるので、テストごとに別のモデルにする
+  let n = 0;
+  let id = '';
+
+  beforeEach(() => {
+    id = `gemini:v1beta/test-model-${++n}`;
+    vi.stubEnv('KV_BACKEND', 'memory');
+    vi.stubEnv('LLM_CIRCUIT_THRESHOLD', '3');
+    vi.stubEnv('LLM_CIRCUIT_COOLDOWN_SECONDS', '60');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.UTC(2026, 9, 19));
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('opens after the threshold of consecutive failures and closes after the cooldown', async () => {
+    const breaker = createCircuitBreaker();
+    await breaker.recordFailure(id);
+    await breaker.recordFailure(id);
+    expect(await breaker.isOpen(id)).toBe(false);
+    await breaker.recordFailure(id);
+    expect(await breaker.isOpen(id)).toBe(true);
+
+    vi.advanceTimersByTime(59_000);
+    expect(await breaker.isOpen(id)).toBe(true);
+    vi.advanceTimersByTime(1_000);
+    expect(await breaker.isOpen(id)).toBe(false);
+
+    // 開いたときに失敗回数は数え直しになっている
+    await breaker.recordFailure(id);
+    expect(await breaker.isOpen(id)).toBe(false);
+  });
+
+  it('resets the failure count on success', async () => {
+    const breaker = createCircuitBreaker();
+    await breaker.recordFailure(id);
+    await breaker.recordFailure(id);
+    await breaker.recordSuccess(id);
+    await breaker.recordFailure(id);
+    await breaker.recordFailure(id);
+    expect(await breaker.isOpen(id)).toBe(false);
+  });
+
+  it('forgets failures older than the cooldown window', async () => {
+    const breaker = createCircuitBreaker();
+    await breaker.recordFailure(id);
+    await breaker.recordFailure(id);
+    vi.advanceTimersByTime(60_000);
+    await breaker.recordFailure(id);
+    expect(await breaker.isOpen(id)).toBe(false);
+  });
+
+  it('keeps models separate', async () => {
+    const breaker = createCircuitBreaker();
+    for (let i = 0; i < 3; i++) await breaker.recordFailure(id);
+    expect(await breaker.isOpen(id)).toBe(true);
+    expect(await breaker.isOpen('gemini:v1beta/other-model')).toBe(false);
+  });
+
+  it('never opens when the threshold is 0', async () => {
+    vi.stubEnv('LLM_CIRCUIT_THRESHOLD', '0');
+    const breaker = createCircuitBreaker();
+    for (let i = 0; i < 5; i++) await breaker.recordFailure(id);
+    expect(await breaker.isOpen(id)).toBe(false);
+  });
+
+  it('stays closed without a KV store', async () => {
+    vi.stubEnv('KV_BACKEND', '');
+    vi.stubEnv('MARKETKV_KV_REST_API_URL', '');
+    vi.stubEnv('KV_REST_API_URL', '');
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', '');
+    const breaker = createCircuitBreaker();
+    for (let i = 0; i < 5; i++) await breaker.recordFailure(id);
+    expect(await breaker.isOpen(id)).toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+// api/_lib/llm-resilience.ts
+// LLM 呼び出しの再試行（指数バックオフ + ジッター）と、モデルごとのサーキットブレーカー。
+// ブレーカーの状態は KV に置く（インスタンス間で共有する）。KV が無い / 落ちているときは常に閉じている扱い。
+//  - LLM_MAX_RETRIES               : 429 / 503 / 通信エラー・タイムアウトの再試行回数（既定 2）
+//  - LLM_CIRCUIT_THRESHOLD         : この回数続けて失敗したらブレーカーを開く（既定 3）
+//  - LLM_CIRCUIT_COOLDOWN_SECONDS  : 開いている間はそのモデルを後回しにする（既定 300）
+import { kvDel, kvGetString, kvPipeline, kvSetEx } from './kv.js';
+
+function envInt(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isInteger(n) && n >= 0 ? n : fallback;
+}
+
+/**
+ * ===== 再試行 =====
+ */
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+
+// 混雑・レート制限系（待てば通る見込みがある）。
+// 500 は入力やモデル側の不具合のことが多く、同じリクエストを繰り返しても通らないので含めない
+export function isRetryableLlmError(errMsg: string): boolean {
+  return (
+    /: (429|503)\b/.test(errMsg) ||
+    errMsg.includes('RESOURCE_EXHAUSTED') ||
+    errMsg.includes('UNAVAILABLE') ||
+    errMsg.toLowerCase().includes('overloaded')
+  );
+}
+
+// 上流に届かなかった / 応答が無かった（fetch の通信エラーと、fetchWithTimeout のタイムアウト）
+export function isTransientNetworkError(error: unknown): boolean {
+  const e = error as any;
+  return e?.name === 'AbortError' || (e instanceof TypeError && String(e.message).includes('fetch failed'));
+}
+
+// 再試行しても駄目だった混雑・レート制限は 503、それ以外は 500 としてクライアントに返す
+export function llmErrorStatus(error: unknown): 503 | 500 {
+  return isRetryableLlmError(String((error as any)?.message ?? error)) ? 503 : 500;
+}
+
+// Gemini は 429 の本文に RetryInfo（"retryDelay": "37s"）を入れてくることがある
+function suggestedDelayMs(errMsg: string): number | null {
+  const m = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(errMsg);
+  return m ? Number(m[1]) * 1000 : null;
+}
+
+// full jitter: 0 〜 min(上限, base * 2^attempt) のランダム
+export function backoffDelayMs(attempt: number, errMsg = ''): number {
+  const suggested = suggestedDelayMs(errMsg);
+  if (suggested !== null) return Math.min(BACKOFF_MAX_MS, suggested);
+  return Math.round(Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt));
+}
+
+// signal が中断されたら待つのをやめて、中断のエラーで終える
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 再試行できるエラーの間だけ fn を繰り返す（最後のエラーはそのまま投げる）
+ * signal が中断されたら、待っている途中でもすぐに終える
+ */
+export async function withBackoff<T>(fn: () => Promise<T>, label: string, signal?: AbortSignal): Promise<T> {
+  const maxRetries = envInt('LLM_MAX_RETRIES', 2);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e: any) {
+      const msg = String(e?.message ?? e);
+      if (signal?.aborted || attempt >= maxRetries) throw e;
+      if (!isRetryableLlmError(msg) && !isTransientNetworkError(e)) throw e;
+      const delay = backoffDelayMs(attempt, msg);
+      console.warn(`[WARN] ${label} retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries}): ${msg.slice(0, 200)}`);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * ===== サーキットブレーカー =====
+ * llm:fail:<id> に直近の失敗回数（窓はクールダウンと同じ長さ）、
+ * 閾値に達したら llm:open:<id> をクールダウンの間だけ置く
+ */
+export type CircuitBreaker = {
+  isOpen(id: string): Promise<boolean>;
+  recordFailure(id: string): Promise<void>;
+  recordSuccess(id: string): Promise<void>;
+};
+
+export function createCircuitBreaker(): CircuitBreaker {
+  const threshold = envInt('LLM_CIRCUIT_THRESHOLD', 3);
+  const cooldownSeconds = Math.max(1, envInt('LLM_CIRCUIT_COOLDOWN_SECONDS', 300));
+  const failKey = (id: string) => `llm:fail:${id}`;
+  const openKey = (id: string) => `llm:open:${id}`;
+
+  async function isOpen(id: string): Promise<boolean> {
+    if (!threshold) return false;
+    try {
+      return (await kvGetString(openKey(id))) !== null;
+    } catch (e: any) {
+      console.warn(`[WARN] circuit check skipped (${id}): ${String(e?.message ?? e)}`);
+      return false;
+    }
+  }
+
+  async function recordFailure(id: string): Promise<void> {
+    if (!threshold) return;
+    try {
+      const results = await kvPipeline([
+        ['INCR', failKey(id)],
+        ['EXPIRE', failKey(id), cooldownSeconds],
+      ]);
+      const failures = Number(results?.[0] ?? 0);
+      if (failures >= threshold) {
+        await kvSetEx(openKey(id), String(Date.now()), cooldownSeconds);
+        await kvDel(failKey(id));
+        console.warn(`[WARN] circuit opened: ${id} (${failures} failures, ${cooldownSeconds}s)`);
+      }
+    } catch (e: any) {
+      console.warn(`[WARN] circuit update skipped (${id}): ${String(e?.message ?? e)}`);
+    }
+  }
+
+  async function recordSuccess(id: string): Promise<void> {
+    if (!threshold) return;
+    try {
+      await kvDel(failKey(id));
+    } catch (e: any) {
+      console.warn(`[WARN] circuit reset skipped (${id}): ${String(e?.message ?? e)}`);
+    }
+  }
+
+  return { isOpen, recordFailure, recordSuccess };
+}
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { kvGetString } from './kv.js';
+import { createGeminiProvider } from './llm.js';
+
+const spendToday = async () =>
+  Number((await kvGetString(`spend:gemini:${new Date().toISOString().slice(0, 10).replace(/-/g, '')}`)) ?? 0);
+
+// ListModels は m1 だけ、generateContent は replies を順に返す
+function stubGemini(replies: Array<() => Response>) {
+  const generate = vi.fn(async () => replies.shift()!());
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (url: string) => {
+      if (url.endsWith('/v1beta/models')) {
+        return Response.json({ models: [{ name: 'models/m1', supportedGenerationMethods: ['generateContent'] }] });
+      }
+      if (url.endsWith('/v1/models')) return Response.json({ models: [] });
+      return generate();
+    })
+  );
+  return generate;
+}
+
+const ok = () => Response.json({ candidates: [{ content: { parts: [{ text: 'hello' }] } }] });
+// 待ち時間 0 秒の RetryInfo 付き 429
+const rateLimited = () => new Response('{"error": {"status": "RESOURCE_EXHAUSTED", "retryDelay": "0s"}}', { status: 429 });
+
+describe('LLM spend accounting', () => {
+  beforeEach(() => {
+    vi.stubEnv('KV_BACKEND', 'memory');
+    vi.stubEnv('GEMINI_MODELS', 'm1');
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('counts a rate-limited call only once the retry is served', async () => {
+    const generate = stubGemini([rateLimited, rateLimited, ok]);
+    const before = await spendToday();
+
+    const result = await createGeminiProvider('key').generate('hi');
+    expect(result.text).toBe('hello');
+    expect(generate).toHaveBeenCalledTimes(3);
+    expect((await spendToday()) - before).toBe(1);
+  });
+
+  it('does not count calls that never reached the API', async () => {
+    const generate = stubGemini([
+      () => {
+        throw new TypeError('fetch failed');
+      },
+      ok,
+    ]);
+    const before = await spendToday();
+
+    await createGeminiProvider('key').generate('hi');
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect((await spendToday()) - before).toBe(1);
+  });
+
+  it('counts a call the API processed even if it failed', async () => {
+    stubGemini([() => new Response('{"error": {"status": "INVALID_ARGUMENT"}}', { status: 400 })]);
+    const before = await spendToday();
+
+    await expect(createGeminiProvider('key').generate('hi')).rejects.toThrow(': 400');
+    expect((await spendToday()) - before).toBe(1);
+  });
+});
@@ -0,0 +1,577 @@
+// api/_lib/llm.ts
+// LLM 呼び出しの共通レイヤー。
+// プロバイダは環境変数 LLM_PROVIDER で切り替える:
+//  - gemini (既定): GEMINI_API_KEY
+//      GEMINI_MODELS                  (使いたい順のモデル名、カンマ区切り。省略時は DEFAULT_GEMINI_MODELS)
+//      GEMINI_MODEL_CACHE_TTL_SECONDS (モデル一覧と前回動いたモデルを KV に置く時間、既定 3600)
+//  - openai       : OpenAI 互換 API（OpenAI / Ollama / llama.cpp server など）
+//      OPENAI_BASE_URL (既定 https://api.openai.com/v1)
+//      OPENAI_API_KEY  (ローカルサーバーなら省略可)
+//      OPENAI_MODEL    (省略時は /models の先頭を使う)
+import { fetchStreaming, fetchWithTimeout, readSseData } from './http.js';
+import { kvDel, kvGetString, kvSetEx } from './kv.js';
+import { createCircuitBreaker, isRetryableLlmError, isTransientNetworkError, withBackoff } from './llm-resilience.js';
+import { recordServedSpend } from './rate-limit.js';
+import type { Trace } from './trace.js';
+
+export type LlmProviderName = 'gemini' | 'openai';
+
+export type LlmUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type LlmGenerateResult = {
+  provider: LlmProviderName;
+  model: string;
+  version?: string; // Gemini の API version など
+  text: string;
+  usage?: LlmUsage; // プロバイダが返したときだけ
+};
+
+export type LlmMessage = {
+  role: 'user' | 'assistant';
+  content: string;
+};
+
+// 文字列は「user の 1 ターン」として扱う
+export type LlmInput =
+  | string
+  | {
+      system?: string;
+      messages: LlmMessage[]; // 古い順。最後は user
+    };
+
+export type LlmGenerateOptions = {
+  // JSON で返させる。schema は OpenAPI 3.0 サブセット（Gemini の responseSchema 形式）
+  json?: { schema: Record<string, unknown> };
+  // モデル一覧の取得時間・使ったモデル・トークン数を記録する
+  trace?: Trace;
+};
+
+export type LlmStream = Omit<LlmGenerateResult, 'text'> & {
+  // テキストの差分を届いた順に返す
+  chunks: AsyncIterable<string>;
+};
+
+export type LlmProvider = {
+  name: LlmProviderName;
+  generate(input: LlmInput, opts?: LlmGenerateOptions): Promise<LlmGenerateResult>;
+  // signal が abort されたら上流へのリクエストも中断する
+  stream(input: LlmInput, signal?: AbortSignal): Promise<LlmStream>;
+};
+
+const LIST_MODELS_TIMEOUT_MS = 8000;
+const GENERATE_TIMEOUT_MS = 30000;
+
+function toConversation(input: LlmInput): { system?: string; messages: LlmMessage[] } {
+  return typeof input === 'string' ? { messages: [{ role: 'user', content: input }] } : input;
+}
+
+/**
+ * ===== Gemini (REST) =====
+ */
+type GeminiApiVersion = 'v1beta' | 'v1';
+
+type GeminiModel = {
+  name?: string; // e.g. "models/gemini-2.0-flash"
+  supportedGenerationMethods?: string[];
+};
+
+type GeminiListModelsResponse = {
+  models?: GeminiModel[];
+};
+
+async function listGeminiModels(version: GeminiApiVersion, apiKey: string): Promise<GeminiModel[]> {
+  const url = `https://generativelanguage.googleapis.com/${version}/models`;
+  const resp = await fetchWithTimeout(
+    url,
+    {
+      method: 'GET',
+      headers: { 'x-goog-api-key': apiKey },
+    },
+    LIST_MODELS_TIMEOUT_MS
+  );
+
+  if (!resp.ok) {
+    const detail = await resp.text();
+    throw new Error(`ListModels failed (${version}): ${resp.status} ${detail}`);
+  }
+
+  const data = (await resp.json()) as GeminiListModelsResponse;
+  return Array.isArray(data?.models) ? data.models : [];
+}
+
+function shortModelName(fullName: string): string {
+  return fullName.replace(/^models\//, '');
+}
+
+function modelSupportsGenerateContent(m: GeminiModel): boolean {
+  const methods = m.supportedGenerationMethods;
+  // フィールドが無い/空なら「試す」
+  if (!Array.isArray(methods) || methods.length === 0) return true;
+  return methods.includes('generateContent');
+}
+
+/**
+ * JSON 出力の指定。responseSchema は v1beta のみ受け付けるので、v1 ではプロンプト側の指示に任せる
+ * （どちらにしても呼び出し側で検証する）。
+ */
+function geminiGenerationConfig(version: GeminiApiVersion, opts?: LlmGenerateOptions): Record<string, unknown> | undefined {
+  if (!opts?.json || version !== 'v1beta') return undefined;
+  return { responseMimeType: 'application/json', responseSchema: opts.json.schema };
+}
+
+async function geminiGenerateContent(
+  version: GeminiApiVersion,
+  model: string,
+  apiKey: string,
+  input: LlmInput,
+  opts?: LlmGenerateOptions
+): Promise<{ text: string; usage?: LlmUsage }> {
+  const url = `https://generativelanguage.googleapis.com/${version}/models/${model}:generateContent`;
+  const resp = await fetchWithTimeout(
+    url,
+    {
+      method: 'POST',
+      headers: {
+        'x-goog-api-key': apiKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: toGeminiContents(input),
+        generationConfig: geminiGenerationConfig(version, opts),
+      }),
+    },
+    GENERATE_TIMEOUT_MS
+  );
+  await recordServedSpend('gemini', resp.status);
+
+  const raw = await resp.text();
+  if (!resp.ok) {
+    throw new Error(`Gemini generateContent failed (${version}/${model}): ${resp.status} ${raw}`);
+  }
+
+  const data = JSON.parse(raw) as any;
+  const text: unknown = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+  if (typeof text !== 'string' || text.trim() === '') {
+    throw new Error(`Gemini response is empty (${version}/${model}). raw=${raw}`);
+  }
+  return { text, usage: geminiUsageOf(data) };
+}
+
+function geminiUsageOf(data: any): LlmUsage | undefined {
+  const u = data?.usageMetadata;
+  if (typeof u?.totalTokenCount !== 'number') return undefined;
+  return {
+    promptTokens: Number(u.promptTokenCount ?? 0),
+    completionTokens: Number(u.candidatesTokenCount ?? 0),
+    totalTokens: u.totalTokenCount,
+  };
+}
+
+function geminiTextOf(data: any): string {
+  const parts: unknown = data?.candidates?.[0]?.content?.parts;
+  if (!Array.isArray(parts)) return '';
+  return parts.map((p: any) => (typeof p?.text === 'string' ? p.text : '')).join('');
+}
+
+async function geminiStreamGenerateContent(
+  version: GeminiApiVersion,
+  model: string,
+  apiKey: string,
+  input: LlmInput,
+  signal?: AbortSignal
+): Promise<AsyncIterable<string>> {
+  const url = `https://generativelanguage.googleapis.com/${version}/models/${model}:streamGenerateContent?alt=sse`;
+  const resp = await fetchStreaming(
+    url,
+    {
+      method: 'POST',
+      headers: {
+        'x-goog-api-key': apiKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: toGeminiContents(input),
+      }),
+    },
+    GENERATE_TIMEOUT_MS,
+    signal
+  );
+  await recordServedSpend('gemini', resp.status);
+
+  if (!resp.ok || !resp.body) {
+    const raw = await resp.text();
+    throw new Error(`Gemini streamGenerateContent failed (${version}/${model}): ${resp.status} ${raw}`);
+  }
+
+  const body = resp.body;
+  return (async function* () {
+    for await (const data of readSseData(body)) {
+      const text = geminiTextOf(JSON.parse(data));
+      if (text) yield text;
+    }
+  })();
+}
+
+/**
+ * Gemini の contents（role は user / model）に変換する。
+ * systemInstruction は v1 で使えないモデルがあるため、system は最初の user ターンの先頭に入れる。
+ */
+function toGeminiContents(input: LlmInput): Array<{ role: 'user' | 'model'; parts: Array<{ text: string }> }> {
+  const { system, messages } = toConversation(input);
+  return messages.map((m, i) => {
+    const text = i === 0 && system && m.role === 'user' ? `${system}\n\n${m.content}` : m.content;
+    return { role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text }] };
+  });
+}
+
+function isGeminiNotFoundOrUnsupported(errMsg: string): boolean {
+  // 404 not found / not supported が混ざるケースが多い
+  return errMsg.includes(': 404') || errMsg.includes('"code": 404') || errMsg.includes('NOT_FOUND');
+}
+
+// 使いたい順。GEMINI_MODELS（カンマ区切り）で差し替えられる
+const DEFAULT_GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.0-flash', 'gemini-2.0-flash-001', 'gemini-2.0-flash-lite'];
+
+export function getGeminiPreferredModels(): string[] {
+  const list = (process.env.GEMINI_MODELS ?? '')
+    .split(',')
+    .map((s) => shortModelName(s.trim()))
+    .filter((s) => s);
+  return list.length > 0 ? list : DEFAULT_GEMINI_MODELS;
+}
+
+// モデル一覧と「前回動いたモデル」を KV に置いておく時間（GEMINI_MODEL_CACHE_TTL_SECONDS）
+function modelCacheTtlSeconds(): number {
+  const n = Number(process.env.GEMINI_MODEL_CACHE_TTL_SECONDS ?? 3600);
+  return Number.isInteger(n) && n > 0 ? n : 3600;
+}
+
+type GeminiCandidate = { version: GeminiApiVersion; model: string };
+
+const candidateId = (c: GeminiCandidate) => `gemini:${c.version}/${c.model}`;
+
+export function createGeminiProvider(apiKey: string): LlmProvider {
+  const preferred = getGeminiPreferredModels();
+  const breaker = createCircuitBreaker();
+  // 優先リストを変えたら、前回のモデルは使わずに選び直す
+  const workingKey = `llm:gemini:working:${preferred.join(',')}`;
+
+  // generateContent に使えるモデル名（KV にキャッシュ。一覧の取得に失敗したら null）
+  async function generateCapableModels(version: GeminiApiVersion, trace?: Trace): Promise<string[] | null> {
+    const cacheKey = `llm:gemini:models:${version}`;
+    try {
+      const cached = await kvGetString(cacheKey);
+      if (cached) return JSON.parse(cached) as string[];
+    } catch (e: any) {
+      console.warn(`[WARN] model list cache skipped: ${String(e?.message ?? e)}`);
+    }
+
+    let models: GeminiModel[];
+    try {
+      const list = () => listGeminiModels(version, apiKey);
+      models = await (trace ? trace.span('llm.listModels', list, { provider: 'gemini', version }) : list());
+    } catch (e: any) {
+      console.warn(`[WARN] listModels failed: ${String(e?.message ?? e)}`);
+      return null;
+    }
+
+    const named = models.filter((m) => typeof m?.name === 'string' && m.name);
+    const capable = named.filter(modelSupportsGenerateContent);
+    // generateContent 対応と書かれたモデルが 1 つも無ければ全部試す
+    const names = (capable.length > 0 ? capable : named).map((m) => shortModelName(m.name as string));
+
+    if (names.length > 0) {
+      try {
+        await kvSetEx(cacheKey, JSON.stringify(names), modelCacheTtlSeconds());
+      } catch (e: any) {
+        console.warn(`[WARN] model list cache write skipped: ${String(e?.message ?? e)}`);
+      }
+    }
+    return names;
+  }
+
+  async function cachedWorkingModel(): Promise<GeminiCandidate | null> {
+    try {
+      const raw = await kvGetString(workingKey);
+      return raw ? (JSON.parse(raw) as GeminiCandidate) : null;
+    } catch (e: any) {
+      console.warn(`[WARN] working model cache skipped: ${String(e?.message ?? e)}`);
+      return null;
+    }
+  }
+
+  async function rememberWorkingModel(c: GeminiCandidate): Promise<void> {
+    try {
+      await kvSetEx(workingKey, JSON.stringify(c), modelCacheTtlSeconds());
+    } catch (e: any) {
+      console.warn(`[WARN] working model cache write skipped: ${String(e?.message ?? e)}`);
+    }
+  }
+
+  /**
+   * 「試す順」に (version, model) を返す
+   *  1) 前回動いたモデル（一覧を取りに行かない）
+   *  2) 一覧のうち preferred にあるもの → それ以外
+   *  ブレーカーが開いているモデルは最後に回す（全部開いていても何かは試す）
+   */
+  async function* candidates(trace?: Trace): AsyncGenerator<GeminiCandidate & { cached: boolean }> {
+    const seen = new Set<string>();
+    const deferred: GeminiCandidate[] = [];
+
+    const working = await cachedWorkingModel();
+    if (working) {
+      seen.add(candidateId(working));
+      if (await breaker.isOpen(candidateId(working))) deferred.push(working);
+      else yield { ...working, cached: true };
+    }
+
+    for (const version of ['v1beta', 'v1'] as const) {
+      const available = await generateCapableModels(version, trace);
+      if (!available) continue;
+
+      // preferred優先 → それ以外も順に試す
+      const ordered: string[] = [];
+      for (const p of preferred) if (available.includes(p)) ordered.push(p);
+      for (const a of available) if (!ordered.includes(a)) ordered.push(a);
+
+      for (const model of ordered) {
+        const c = { version, model };
+        if (seen.has(candidateId(c))) continue;
+        seen.add(candidateId(c));
+        if (await breaker.isOpen(candidateId(c))) deferred.push(c);
+        else yield { ...c, cached: false };
+      }
+    }
+
+    for (const c of deferred) yield { ...c, cached: false };
+  }
+
+  /**
+   * 候補を順に試す共通処理
+   *  - 404（モデルが無い）: 次へ。前回のモデルだったらキャッシュを捨てる
+   *  - 429 / 503 など: バックオフして再試行し、それでも駄目ならブレーカーに記録して次へ
+   *  - それ以外（認証/課金など）: 即エラー
+   */
+  async function tryCandidates<T>(
+    label: string,
+    call: (c: GeminiCandidate) => Promise<T>,
+    trace?: Trace,
+    signal?: AbortSignal
+  ): Promise<{ value: T; candidate: GeminiCandidate }> {
+    let lastError: unknown = null;
+
+    for await (const c of candidates(trace)) {
+      const id = candidateId(c);
+      try {
+        const value = await withBackoff(() => call(c), `${label} ${id}`, signal);
+        await breaker.recordSuccess(id);
+        if (!c.cached) await rememberWorkingModel({ version: c.version, model: c.model });
+        return { value, candidate: c };
+      } catch (e: any) {
+        const msg = String(e?.message ?? e);
+        console.warn(`[WARN] ${label} failed: ${msg}`);
+        if (signal?.aborted) throw e;
+        lastError = e;
+
+        if (isGeminiNotFoundOrUnsupported(msg)) {
+          if (c.cached) {
+            await kvDel(workingKey).catch(() => {});
+          }
+          continue; // 次へ
+        }
+        if (isRetryableLlmError(msg) || isTransientNetworkError(e)) {
+          await breaker.recordFailure(id);
+          continue;
+        }
+        throw e; // 認証/課金等は即エラー
+      }
+    }
+
+    if (lastError && isRetryableLlmError(String((lastError as any)?.message ?? lastError))) {
+      throw new Error(`All Gemini models are busy or rate-limited: ${String((lastError as any)?.message ?? lastError)}`);
+    }
+    throw new Error('No working Gemini model found (checked v1beta/v1).');
+  }
+
+  async function generate(input: LlmInput, opts?: LlmGenerateOptions): Promise<LlmGenerateResult> {
+    const { value, candidate } = await tryCandidates(
+      'generateContent',
+      (c) => geminiGenerateContent(c.version, c.model, apiKey, input, opts),
+      opts?.trace
+    );
+    const { version, model } = candidate;
+    opts?.trace?.recordLlm({ provider: 'gemini', name: model, version }, value.usage);
+    return { provider: 'gemini', version, model, text: value.text, usage: value.usage };
+  }
+
+  async function stream(input: LlmInput, signal?: AbortSignal): Promise<LlmStream> {
+    const { value: chunks, candidate } = await tryCandidates(
+      'streamGenerateContent',
+      (c) => geminiStreamGenerateContent(c.version, c.model, apiKey, input, signal),
+      undefined,
+      signal
+    );
+    return { provider: 'gemini', version: candidate.version, model: candidate.model, chunks };
+  }
+
+  return { name: 'gemini', generate, stream };
+}
+
+/**
+ * ===== OpenAI 互換 (Chat Completions) =====
+ * Ollama: OPENAI_BASE_URL=http://localhost:11434/v1
+ * llama.cpp server: OPENAI_BASE_URL=http://localhost:8080/v1
+ */
+type OpenAiListModelsResponse = {
+  data?: Array<{ id?: string }>;
+};
+
+function toOpenAiMessages(input: LlmInput): Array<{ role: 'system' | 'user' | 'assistant'; content: string }> {
+  const { system, messages } = toConversation(input);
+  return system ? [{ role: 'system', content: system }, ...messages] : messages;
+}
+
+function openAiHeaders(apiKey: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  return headers;
+}
+
+async function listOpenAiModels(baseUrl: string, apiKey: string | undefined): Promise<string[]> {
+  const resp = await fetchWithTimeout(
+    `${baseUrl}/models`,
+    { method: 'GET', headers: openAiHeaders(apiKey) },
+    LIST_MODELS_TIMEOUT_MS
+  );
+
+  if (!resp.ok) {
+    const detail = await resp.text();
+    throw new Error(`OpenAI-compatible ListModels failed: ${resp.status} ${detail}`);
+  }
+
+  const data = (await resp.json()) as OpenAiListModelsResponse;
+  return Array.isArray(data?.data)
+    ? data.data.map((m) => m?.id).filter((id): id is string => typeof id === 'string' && id !== '')
+    : [];
+}
+
+export function createOpenAiCompatibleProvider(opts: {
+  baseUrl: string;
+  apiKey?: string;
+  model?: string;
+}): LlmProvider {
+  const baseUrl = opts.baseUrl.replace(/\/+$/, '');
+
+  async function resolveModel(): Promise<string> {
+    if (opts.model) return opts.model;
+    const models = await listOpenAiModels(baseUrl, opts.apiKey);
+    if (models.length === 0) throw new Error(`No model available at ${baseUrl}. Set OPENAI_MODEL.`);
+    return models[0];
+  }
+
+  async function generate(input: LlmInput, options?: LlmGenerateOptions): Promise<LlmGenerateResult> {
+    const trace = options?.trace;
+    const model = await (trace && !opts.model
+      ? trace.span('llm.listModels', resolveModel, { provider: 'openai' })
+      : resolveModel());
+
+    const resp = await fetchWithTimeout(
+      `${baseUrl}/chat/completions`,
+      {
+        method: 'POST',
+        headers: openAiHeaders(opts.apiKey),
+        body: JSON.stringify({
+          model,
+          messages: toOpenAiMessages(input),
+          // json_schema は対応していないサーバー（古い Ollama など）があるので json_object にとどめる
+          ...(options?.json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+      },
+      GENERATE_TIMEOUT_MS
+    );
+    await recordServedSpend('openai', resp.status);
+
+    const raw = await resp.text();
+    if (!resp.ok) {
+      throw new Error(`OpenAI-compatible chat/completions failed (${model}): ${resp.status} ${raw}`);
+    }
+
+    const data = JSON.parse(raw) as any;
+    const text: unknown = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string' || text.trim() === '') {
+      throw new Error(`OpenAI-compatible response is empty (${model}). raw=${raw}`);
+    }
+    const u = data?.usage;
+    const usage: LlmUsage | undefined =
+      typeof u?.total_tokens === 'number'
+        ? { promptTokens: Number(u.prompt_tokens ?? 0), completionTokens: Number(u.completion_tokens ?? 0), totalTokens: u.total_tokens }
+        : undefined;
+    trace?.recordLlm({ provider: 'openai', name: model }, usage);
+    return { provider: 'openai', model, text, usage };
+  }
+
+  async function stream(input: LlmInput, signal?: AbortSignal): Promise<LlmStream> {
+    const model = await resolveModel();
+
+    const resp = await fetchStreaming(
+      `${baseUrl}/chat/completions`,
+      {
+        method: 'POST',
+        headers: openAiHeaders(opts.apiKey),
+        body: JSON.stringify({
+          model,
+          messages: toOpenAiMessages(input),
+          stream: true,
+        }),
+      },
+      GENERATE_TIMEOUT_MS,
+      signal
+    );
+    await recordServedSpend('openai', resp.status);
+
+    if (!resp.ok || !resp.body) {
+      const raw = await resp.text();
+      throw new Error(`OpenAI-compatible chat/completions failed (${model}): ${resp.status} ${raw}`);
+    }
+
+    const body = resp.body;
+    const chunks = (async function* () {
+      for await (const data of readSseData(body)) {
+        if (data.trim() === '[DONE]') break;
+        const delta: unknown = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) yield delta;
+      }
+    })();
+    return { provider: 'openai', model, chunks };
+  }
+
+  return { name: 'openai', generate, stream };
+}
+
+/**
+ * 環境変数からプロバイダを組み立てる。
+ * 必須の設定が欠けている場合は Error を投げる（ハンドラ側で 500 にする）。
+ */
+export function getLlmProvider(): LlmProvider {
+  const name = (process.env.LLM_PROVIDER ?? 'gemini').trim().toLowerCase();
+
+  if (name === 'gemini') {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) throw new Error('GEMINI_API_KEY is not set.');
+    return createGeminiProvider(apiKey);
+  }
+
+  if (name === 'openai') {
+    return createOpenAiCompatibleProvider({
+      baseUrl: process.env.OPENAI_BASE_URL ?? 'https://api.openai.com/v1',
+      apiKey: process.env.OPENAI_API_KEY || undefined,
+      model: process.env.OPENAI_MODEL || undefined,
+    });
+  }
+
+  throw new Error(`Unknown LLM_PROVIDER: ${name} (expected "gemini" or "openai").`);
+}
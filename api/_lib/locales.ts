@@ -0,0 +1,78 @@
+// api/_lib/locales.ts
+// ニュースを探す言語・地域（エディション）と、レポート・回答の出力言語。
+//  - エディションは複数指定でき、取得元ごと・エディションごとに検索して結果をまとめる
+//  - 出力言語はプロンプトの指示だけを切り替える（必須構成などの指示文は日本語のまま）
+
+/**
+ * ===== ニュースのエディション =====
+ */
+export type NewsEditionId = 'ja-jp' | 'en-us' | 'en-gb' | 'de-de' | 'fr-fr';
+
+export type NewsEdition = {
+  id: NewsEditionId;
+  lang: string; // ISO 639-1（GNews の lang / Google ニュースの hl）
+  country: string; // ISO 3166-1 小文字（GNews の country / Google ニュースの gl）
+  label: string;
+};
+
+export const NEWS_EDITIONS: Record<NewsEditionId, NewsEdition> = {
+  'ja-jp': { id: 'ja-jp', lang: 'ja', country: 'jp', label: '日本語（日本）' },
+  'en-us': { id: 'en-us', lang: 'en', country: 'us', label: 'English (US)' },
+  'en-gb': { id: 'en-gb', lang: 'en', country: 'gb', label: 'English (UK)' },
+  'de-de': { id: 'de-de', lang: 'de', country: 'de', label: 'Deutsch (Deutschland)' },
+  'fr-fr': { id: 'fr-fr', lang: 'fr', country: 'fr', label: 'Français (France)' },
+};
+
+export const DEFAULT_NEWS_EDITIONS: NewsEditionId[] = ['ja-jp'];
+
+// 取得元の呼び出し回数がエディションの数だけ増えるので上限を設ける
+export const MAX_NEWS_EDITIONS = 3;
+
+export function isNewsEditionId(v: unknown): v is NewsEditionId {
+  return typeof v === 'string' && Object.prototype.hasOwnProperty.call(NEWS_EDITIONS, v);
+}
+
+/**
+ * リクエストボディの newsEditions を検証する（未指定は既定、不正なら null）。
+ * 順序に意味は無いので並べ替えておく（キャッシュキーを揃えるため）。
+ */
+export function parseNewsEditions(raw: unknown): NewsEditionId[] | null {
+  if (raw === undefined) return DEFAULT_NEWS_EDITIONS;
+  if (!Array.isArray(raw) || raw.length === 0 || !raw.every(isNewsEditionId)) return null;
+  const ids = Array.from(new Set(raw)).sort();
+  return ids.length <= MAX_NEWS_EDITIONS ? ids : null;
+}
+
+export function isDefaultNewsEditions(ids: NewsEditionId[]): boolean {
+  return ids.length === DEFAULT_NEWS_EDITIONS.length && ids.every((id) => DEFAULT_NEWS_EDITIONS.includes(id));
+}
+
+/**
+ * ===== 出力言語 =====
+ */
+export type OutputLanguage = 'ja' | 'en';
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = 'ja';
+
+export const OUTPUT_LANGUAGES: Record<OutputLanguage, { label: string; instruction: string }> = {
+  ja: { label: '日本語', instruction: '日本語で書く。' },
+  en: {
+    label: 'English',
+    instruction: '英語で書く（見出し・箇条書き・参考文献の説明も含めてすべて英語。記事タイトルは原文のまま）。',
+  },
+};
+
+export function isOutputLanguage(v: unknown): v is OutputLanguage {
+  return typeof v === 'string' && Object.prototype.hasOwnProperty.call(OUTPUT_LANGUAGES, v);
+}
+
+// 画面に渡す一覧
+export function listLocaleOptions() {
+  return {
+    defaultNewsEditions: DEFAULT_NEWS_EDITIONS,
+    maxNewsEditions: MAX_NEWS_EDITIONS,
+    newsEditions: Object.values(NEWS_EDITIONS).map(({ id, label }) => ({ id, label })),
+    defaultOutputLanguage: DEFAULT_OUTPUT_LANGUAGE,
+    outputLanguages: Object.entries(OUTPUT_LANGUAGES).map(([id, { label }]) => ({ id, label })),
+  };
+}
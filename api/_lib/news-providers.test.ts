@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { kvGetString } from './kv.js';
+import { NEWS_EDITIONS } from './locales.js';
+import { createGNewsProvider, createRssProvider } from './news-providers.js';
+
+const item = (title: string, pubDate?: string) =>
+  `<item><title>${title}</title><link>https://news.example.com/${encodeURIComponent(title)}</link>` +
+  (pubDate ? `<pubDate>${pubDate}</pubDate>` : '') +
+  '</item>';
+
+// フィードの先頭は期間外の古い記事と日付の無い記事
+const FEED =
+  '<?xml version="1.0"?><rss version="2.0"><channel><title>Example News</title>' +
+  item('old-1', 'Mon, 01 Sep 2026 00:00:00 GMT') +
+  item('old-2', 'Tue, 02 Sep 2026 00:00:00 GMT') +
+  item('undated') +
+  item('recent-1', 'Sun, 18 Oct 2026 09:00:00 GMT') +
+  item('recent-2', 'Mon, 19 Oct 2026 06:00:00 GMT') +
+  '</channel></rss>';
+
+describe('RSS provider', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(FEED)));
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  const search = (max: number, from: string | null) =>
+    createRssProvider(['https://news.example.com/rss?q={query}']).search('トヨタ', max, NEWS_EDITIONS['ja-jp'], {
+      from,
+      to: '2026-10-19T12:00:00.000Z',
+    });
+
+  it('drops articles outside the window before keeping the first max items', async () => {
+    const items = await search(2, '2026-10-12T12:00:00.000Z');
+    expect(items.map((i) => i.title)).toEqual(['recent-1', 'recent-2']);
+  });
+
+  it('keeps undated articles only when no window is set', async () => {
+    const items = await search(10, null);
+    expect(items.map((i) => i.title)).toEqual(['old-1', 'old-2', 'undated', 'recent-1', 'recent-2']);
+  });
+});
+
+describe('GNews provider', () => {
+  const spendToday = async () =>
+    Number((await kvGetString(`spend:gnews:${new Date().toISOString().slice(0, 10).replace(/-/g, '')}`)) ?? 0);
+  const search = () => createGNewsProvider('key').search('トヨタ', 5, NEWS_EDITIONS['ja-jp'], { from: null, to: new Date().toISOString() });
+
+  beforeEach(() => vi.stubEnv('KV_BACKEND', 'memory'));
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('counts a request against the daily budget only once GNews has answered it', async () => {
+    const before = await spendToday();
+    vi.stubGlobal('fetch', vi.fn(async () => Promise.reject(new TypeError('fetch failed'))));
+    await expect(search()).rejects.toThrow('fetch failed');
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('too many', { status: 429 })));
+    await expect(search()).rejects.toThrow(': 429');
+    expect(await spendToday()).toBe(before);
+
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ articles: [] })));
+    await search();
+    expect(await spendToday()).toBe(before + 1);
+  });
+});
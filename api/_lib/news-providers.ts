@@ -0,0 +1,199 @@
+// api/_lib/news-providers.ts
+// ニュースの取得元。環境変数で組み合わせを切り替える:
+//  - NEWS_PROVIDERS     : 使う取得元をカンマ区切りで（既定 "gnews,rss"）
+//  - GNEWS_API_KEY      : gnews を使う場合に必要（未設定なら gnews は無効）
+//  - NEWS_RSS_FEEDS     : RSS/Atom フィードの URL をカンマ区切りで。"{query}" は検索語に置き換える。
+//                         {query} を含まないフィード（適時開示など）は、検索語を含む記事だけを拾う。
+//                         {lang} {country} {hl} {gl} {ceid} はエディション（locales.ts）に置き換える。
+//                         （既定は Google ニュースの検索フィード）
+import * as cheerio from 'cheerio';
+import { fetchWithTimeout } from './http.js';
+import type { NewsEdition } from './locales.js';
+import { isOverDailyLimit, recordServedSpend } from './rate-limit.js';
+import type { NewsSource } from './news.js';
+import { isWithinRange, type NewsRange } from './time-window.js';
+
+// 取得元が返す記事（ランキング用に description も持つ）
+export type NewsCandidate = NewsSource & {
+  description: string;
+  provider: string;
+  query: string; // この記事を見つけた検索語（エディションごとに違う）
+};
+
+export type NewsProvider = {
+  name: string;
+  // range は取得元が絞り込めるなら使う（期間外の記事は呼び出し側でも落とす）
+  search(query: string, max: number, edition: NewsEdition, range: NewsRange): Promise<NewsCandidate[]>;
+};
+
+const NEWS_TIMEOUT_MS = 8000;
+
+const DEFAULT_RSS_FEEDS = ['https://news.google.com/rss/search?q={query}&hl={hl}&gl={gl}&ceid={ceid}'];
+
+/**
+ * ===== GNews =====
+ */
+// GNews の from / to はミリ秒なしの ISO8601
+const gnewsDate = (iso: string) => iso.replace(/\.\d{3}Z$/, 'Z');
+
+export function createGNewsProvider(apiKey: string): NewsProvider {
+  async function search(query: string, max: number, edition: NewsEdition, range: NewsRange): Promise<NewsCandidate[]> {
+    const gnewsUrl =
+      `https://gnews.io/api/v4/search?q=${encodeURIComponent(query)}` +
+      `&lang=${edition.lang}&country=${edition.country}&max=${max}` +
+      (range.from ? `&from=${gnewsDate(range.from)}&to=${gnewsDate(range.to)}` : '') +
+      `&apikey=${apiKey}`;
+
+    // 上限に達したら gnews だけ外れて、残りの取得元で続行する
+    if (await isOverDailyLimit('gnews')) throw new Error('GNews daily limit reached.');
+    const gnewsResp = await fetchWithTimeout(gnewsUrl, { method: 'GET' }, NEWS_TIMEOUT_MS);
+    await recordServedSpend('gnews', gnewsResp.status);
+    const gnewsRaw = await gnewsResp.text();
+    if (!gnewsResp.ok) {
+      throw new Error(`GNews failed: ${gnewsResp.status} ${gnewsRaw}`);
+    }
+
+    const newsData = JSON.parse(gnewsRaw) as any;
+    const articles = newsData && Array.isArray(newsData.articles) ? newsData.articles : [];
+    return articles.map((a: any) => ({
+      title: typeof a?.title === 'string' ? a.title : '',
+      url: typeof a?.url === 'string' ? a.url : '',
+      sourceName: typeof a?.source?.name === 'string' ? a.source.name : '',
+      publishedAt: typeof a?.publishedAt === 'string' ? a.publishedAt : '',
+      description: typeof a?.description === 'string' ? a.description : '',
+      provider: 'gnews',
+      query,
+    }));
+  }
+
+  return { name: 'gnews', search };
+}
+
+/**
+ * ===== RSS 2.0 / Atom =====
+ */
+function toIsoDate(s: string): string {
+  const t = Date.parse(s);
+  return Number.isNaN(t) ? '' : new Date(t).toISOString();
+}
+
+function stripHtml(s: string): string {
+  return cheerio.load(`<div>${s}</div>`)('div').text().replace(/\s+/g, ' ').trim();
+}
+
+export function parseFeed(xml: string, feedUrl: string): Array<Omit<NewsCandidate, 'query'>> {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const feedTitle = $('channel > title').first().text().trim() || $('feed > title').first().text().trim();
+  const fallbackSource = feedTitle || new URL(feedUrl).hostname;
+
+  const items: Array<Omit<NewsCandidate, 'query'>> = [];
+
+  // RSS 2.0
+  $('item').each((_, el) => {
+    const item = $(el);
+    items.push({
+      title: item.find('title').first().text().trim(),
+      url: item.find('link').first().text().trim(),
+      sourceName: item.find('source').first().text().trim() || fallbackSource,
+      publishedAt: toIsoDate(item.find('pubDate').first().text() || item.find('dc\\:date').first().text()),
+      description: stripHtml(item.find('description').first().text()),
+      provider: 'rss',
+    });
+  });
+
+  // Atom
+  $('entry').each((_, el) => {
+    const entry = $(el);
+    const link = entry.find('link[rel="alternate"]').first().attr('href') ?? entry.find('link').first().attr('href') ?? '';
+    items.push({
+      title: entry.find('title').first().text().trim(),
+      url: link.trim(),
+      sourceName: entry.find('source > title').first().text().trim() || fallbackSource,
+      publishedAt: toIsoDate(entry.find('published').first().text() || entry.find('updated').first().text()),
+      description: stripHtml(entry.find('summary').first().text() || entry.find('content').first().text()),
+      provider: 'rss',
+    });
+  });
+
+  return items.filter((i) => i.title && /^https?:\/\//.test(i.url));
+}
+
+// Google ニュースの形式（hl=ja&gl=JP&ceid=JP:ja / hl=en-US&gl=US&ceid=US:en）に合わせる
+function feedUrlOf(template: string, query: string, edition: NewsEdition): string {
+  const country = edition.country.toUpperCase();
+  const vars: Record<string, string> = {
+    query: encodeURIComponent(query),
+    lang: edition.lang,
+    country: edition.country,
+    hl: edition.lang === 'en' ? `en-${country}` : edition.lang,
+    gl: country,
+    ceid: `${country}:${edition.lang}`,
+  };
+  return template.replace(/\{(\w+)\}/g, (m, name: string) => vars[name] ?? m);
+}
+
+export function createRssProvider(feedUrls: string[]): NewsProvider {
+  async function fetchFeed(template: string, query: string, edition: NewsEdition): Promise<NewsCandidate[]> {
+    const isSearchFeed = template.includes('{query}');
+    const url = feedUrlOf(template, query, edition);
+
+    const resp = await fetchWithTimeout(url, { headers: { 'User-Agent': 'Mozilla/5.0' } }, NEWS_TIMEOUT_MS);
+    const raw = await resp.text();
+    if (!resp.ok) throw new Error(`RSS failed (${url}): ${resp.status}`);
+
+    const items = parseFeed(raw, url).map((i) => ({ ...i, query }));
+    if (isSearchFeed) return items;
+
+    // 検索機能の無いフィードは、検索語を含む記事だけに絞る
+    const q = query.toLowerCase();
+    return items.filter((i) => `${i.title} ${i.description}`.toLowerCase().includes(q));
+  }
+
+  // フィードは期間で絞り込めないので、max 件に切る前に期間外の記事を落とす（先に切ると期間内の記事が残らないことがある）
+  // 日付の無い記事も落とす（isWithinRange と同じく、期間内か判断できないものは使わない）
+  async function search(query: string, max: number, edition: NewsEdition, range: NewsRange): Promise<NewsCandidate[]> {
+    const results = await Promise.allSettled(feedUrls.map((f) => fetchFeed(f, query, edition)));
+    const items: NewsCandidate[] = [];
+    for (const r of results) {
+      if (r.status === 'fulfilled') items.push(...r.value.filter((i) => isWithinRange(i.publishedAt, range)).slice(0, max));
+      else console.warn(`[WARN] RSS feed skipped: ${String(r.reason?.message ?? r.reason)}`);
+    }
+    if (items.length === 0 && results.length > 0 && results.every((r) => r.status === 'rejected')) {
+      throw new Error('All RSS feeds failed.');
+    }
+    return items;
+  }
+
+  return { name: 'rss', search };
+}
+
+/**
+ * 環境変数から取得元を組み立てる（使えるものだけ。空なら呼び出し側で 500 にする）
+ */
+export function getNewsProviders(): NewsProvider[] {
+  const names = (process.env.NEWS_PROVIDERS ?? 'gnews,rss')
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter((s) => s);
+
+  const providers: NewsProvider[] = [];
+  for (const name of names) {
+    if (name === 'gnews') {
+      const apiKey = process.env.GNEWS_API_KEY;
+      if (apiKey) providers.push(createGNewsProvider(apiKey));
+    } else if (name === 'rss') {
+      const feeds = process.env.NEWS_RSS_FEEDS
+        ? process.env.NEWS_RSS_FEEDS.split(',').map((s) => s.trim()).filter((s) => s)
+        : DEFAULT_RSS_FEEDS;
+      if (feeds.length > 0) providers.push(createRssProvider(feeds));
+    } else {
+      console.warn(`[WARN] unknown news provider: ${name}`);
+    }
+  }
+  return providers;
+}
+
+export function getNewsArticleCount(): number {
+  const n = Number(process.env.NEWS_ARTICLE_COUNT ?? 3);
+  return Number.isInteger(n) && n >= 1 ? Math.min(n, 10) : 3;
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NEWS_EDITIONS } from './locales.js';
+import type { NewsCandidate, NewsProvider } from './news-providers.js';
+import { collectNews, mergeNews, searchNews } from './news.js';
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+const daysAgo = (days: number) => new Date(NOW - days * 86400000).toISOString();
+
+const candidate = (c: Partial<NewsCandidate> & Pick<NewsCandidate, 'title' | 'url'>): NewsCandidate => ({
+  sourceName: 'Example',
+  publishedAt: '',
+  description: '',
+  provider: 'test',
+  query: 'トヨタ',
+  ...c,
+});
+
+describe('mergeNews', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  // 見出しに社名（関連度 2）で 2 日前と、本文にだけ社名（関連度 1）で今日の記事
+  const older = candidate({ title: 'トヨタ、新型車を発表', url: 'https://news.example.com/older', publishedAt: daysAgo(2) });
+  const fresher = candidate({
+    title: '自動車各社の販売動向',
+    url: 'https://news.example.com/fresher',
+    description: 'トヨタなど各社の月次販売',
+    publishedAt: daysAgo(0),
+  });
+
+  it('prefers relevance when the window is long', () => {
+    expect(mergeNews([fresher, older], 2, 3).map((c) => c.url)).toEqual([older.url, fresher.url]);
+  });
+
+  it('lets recency win when the window is short', () => {
+    expect(mergeNews([older, fresher], 2, 0.25).map((c) => c.url)).toEqual([fresher.url, older.url]);
+  });
+
+  it('ranks undated articles below dated ones of the same relevance', () => {
+    const undated = candidate({ title: 'トヨタの工場見学', url: 'https://news.example.com/undated' });
+    const dated = candidate({ title: 'トヨタが増産', url: 'https://news.example.com/dated', publishedAt: daysAgo(30) });
+    expect(mergeNews([undated, dated], 2).map((c) => c.url)).toEqual([dated.url, undated.url]);
+  });
+
+  it('drops near-duplicate headlines from other outlets', () => {
+    const a = candidate({ title: 'トヨタ、新型車を発表 - A新聞', url: 'https://a.example.com/1', publishedAt: daysAgo(1) });
+    const b = candidate({ title: 'トヨタ、新型車を発表 | B通信', url: 'https://b.example.com/2', publishedAt: daysAgo(0) });
+    expect(mergeNews([a, b], 5)).toHaveLength(1);
+  });
+});
+
+describe('searchNews', () => {
+  it('drops articles whose URL is not http(s), whichever provider returned them', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const provider: NewsProvider = {
+      name: 'test',
+      search: async () => [
+        candidate({ title: 'トヨタが増産', url: 'javascript:alert(1)' }),
+        candidate({ title: 'トヨタの決算', url: 'data:text/html,<script>alert(1)</script>' }),
+        candidate({ title: 'トヨタの新工場', url: 'https://news.example.com/ok' }),
+      ],
+    };
+    const sources = await searchNews([{ edition: NEWS_EDITIONS['ja-jp'], query: 'トヨタ' }], [provider], 5);
+    expect(sources.map((s) => s.url)).toEqual(['https://news.example.com/ok']);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('collectNews', () => {
+  const page = (url: string) => `<html><body><article><p>${url} の記事本文。${'あ'.repeat(500)}</p></article></body></html>`;
+
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => new Response(page(url), { headers: { 'content-type': 'text/html; charset=utf-8' } }))
+    );
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('numbers articles oldest first and labels each with its publication time', async () => {
+    const provider: NewsProvider = {
+      name: 'test',
+      search: async () => [
+        candidate({ title: 'トヨタが増産', url: 'https://news.example.com/new', publishedAt: '2026-10-18T09:30:00Z' }),
+        candidate({ title: 'トヨタの工場見学', url: 'https://news.example.com/undated' }),
+        candidate({ title: 'トヨタ、新型車を発表', url: 'https://news.example.com/old', publishedAt: '2026-10-01T00:00:00Z' }),
+      ],
+    };
+
+    const news = await collectNews([{ edition: NEWS_EDITIONS['ja-jp'], query: 'トヨタ' }], [provider]);
+    const headers = news.combinedText.split('\n').filter((line) => /^\[\d+\]/.test(line));
+    expect(headers).toEqual([
+      '[1] トヨタ、新型車を発表（Example, 公開: 2026-10-01 00:00 UTC）',
+      '[2] トヨタが増産（Example, 公開: 2026-10-18 09:30 UTC）',
+      '[3] トヨタの工場見学（Example, 公開: 日付不明）',
+    ]);
+    expect(news.sources.map((s) => s.url)).toEqual([
+      'https://news.example.com/old',
+      'https://news.example.com/new',
+      'https://news.example.com/undated',
+    ]);
+  });
+});
@@ -0,0 +1,291 @@
+// api/_lib/news.ts
+// ニュース検索（取得元は news-providers.ts）と記事本文のスクレイピング
+import { decodeHtml, detectCharset, extractArticle, type ArticleExtraction, type ExtractionQuality } from './article-extract.js';
+import { canonicalizeCompany, newsQueryOf } from './companies.js';
+import { fetchWithTimeout } from './http.js';
+import { DEFAULT_NEWS_EDITIONS, NEWS_EDITIONS, type NewsEdition, type NewsEditionId } from './locales.js';
+import { getNewsArticleCount, type NewsCandidate, type NewsProvider } from './news-providers.js';
+import { DEFAULT_TIME_WINDOW, isWithinRange, recencyHalfLifeDays, resolveTimeWindow, type NewsRange } from './time-window.js';
+import type { Trace } from './trace.js';
+
+// レポートの根拠にした記事（取得元の結果から必要な項目だけ残す）
+// レポート中の [n] は sources[n - 1] を指す
+export type NewsSource = {
+  title: string;
+  url: string;
+  sourceName: string;
+  publishedAt: string; // ISO8601
+  extraction?: ArticleQuality; // 本文の取れ具合（古いキャッシュには無い）
+};
+
+// 記事ごとの本文抽出の結果（本文そのものは含めない）
+export type ArticleQuality = {
+  method: ArticleExtraction['method'];
+  quality: ExtractionQuality;
+  chars: number;
+};
+
+export type CollectedNews = {
+  articleCount: number; // 検索でヒットした記事数
+  sources: NewsSource[]; // 本文を取得できた記事
+  combinedText: string; // 本文（[n] 番号付き）を連結したもの。取得できなければ空文字
+  extractions: Array<ArticleQuality & { url: string }>; // ヒットした全記事の抽出結果（使わなかった記事も含む）
+  range: NewsRange; // 検索した期間
+};
+
+// エディションごとの検索（日本語以外は英語表記の社名で探す）
+export type NewsSearch = {
+  edition: NewsEdition;
+  query: string;
+};
+
+export function newsSearchesFor(companyName: string, editionIds: NewsEditionId[] = DEFAULT_NEWS_EDITIONS): NewsSearch[] {
+  const company = canonicalizeCompany(companyName);
+  return editionIds.map((id) => ({ edition: NEWS_EDITIONS[id], query: newsQueryOf(company, NEWS_EDITIONS[id].lang) }));
+}
+
+const EMPTY_EXTRACTION: ArticleExtraction = {
+  text: '',
+  method: 'none',
+  quality: 'empty',
+  paywalled: false,
+  charset: '',
+};
+
+/**
+ * 記事ページを取得して本文を取り出す（失敗しても例外にせず quality: 'empty' を返す）
+ */
+export async function scrapeArticle(url: string): Promise<ArticleExtraction> {
+  if (typeof url !== 'string' || url.trim() === '') return EMPTY_EXTRACTION;
+  try {
+    const resp = await fetchWithTimeout(
+      url,
+      { headers: { 'User-Agent': 'Mozilla/5.0' } },
+      8000
+    );
+    if (!resp.ok) return EMPTY_EXTRACTION;
+
+    const contentType = resp.headers.get('content-type') ?? '';
+    if (!contentType.includes('text/html')) return EMPTY_EXTRACTION;
+
+    // Shift_JIS / EUC-JP のページもあるので、バイト列で受けてから復号する
+    const bytes = new Uint8Array(await resp.arrayBuffer());
+    const charset = detectCharset(contentType, bytes);
+    return extractArticle(decodeHtml(bytes, charset), charset);
+  } catch {
+    return EMPTY_EXTRACTION;
+  }
+}
+
+/**
+ * ===== 統合・重複除去・ランキング =====
+ */
+function normalizeUrl(url: string): string {
+  try {
+    const u = new URL(url);
+    u.hash = '';
+    for (const key of Array.from(u.searchParams.keys())) {
+      if (/^(utm_|fbclid|gclid)/i.test(key)) u.searchParams.delete(key);
+    }
+    return `${u.protocol}//${u.hostname.toLowerCase()}${u.pathname.replace(/\/+$/, '')}${u.search}`;
+  } catch {
+    return url.trim();
+  }
+}
+
+// 「見出し - 媒体名」の媒体名や記号・空白の違いを無視して比べるための正規化
+function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s[-|｜]\s[^-|｜]+$/, '')
+    .replace(/[\s\p{P}\p{S}]/gu, '');
+}
+
+function bigrams(s: string): Set<string> {
+  const set = new Set<string>();
+  for (let i = 0; i < s.length - 1; i++) set.add(s.slice(i, i + 2));
+  return set;
+}
+
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+function isNearDuplicateTitle(a: string, b: string): boolean {
+  if (a === b) return true;
+  const A = bigrams(a);
+  const B = bigrams(b);
+  if (A.size === 0 || B.size === 0) return false;
+  let common = 0;
+  for (const g of A) if (B.has(g)) common++;
+  return common / (A.size + B.size - common) >= NEAR_DUPLICATE_THRESHOLD;
+}
+
+// 見出し同士が同じ話題か（媒体名・表記の違いは無視する。ウォッチリストの変化検出でも使う）
+export function isSameHeadline(a: string, b: string): boolean {
+  return isNearDuplicateTitle(normalizeTitle(a), normalizeTitle(b));
+}
+
+// halfLifeDays: 新しさの半減期（日）。対象期間が短いほど短くする（time-window.ts）
+function scoreCandidate(c: NewsCandidate, now: number, halfLifeDays: number): number {
+  const q = c.query.normalize('NFKC').toLowerCase();
+  const title = c.title.normalize('NFKC').toLowerCase();
+  const desc = c.description.normalize('NFKC').toLowerCase();
+  const relevance = (title.includes(q) ? 2 : 0) + (desc.includes(q) ? 1 : 0);
+
+  const published = Date.parse(c.publishedAt);
+  const ageDays = Number.isNaN(published) ? Infinity : Math.max(0, (now - published) / 86400000);
+  const recency = 2 * Math.pow(0.5, ageDays / halfLifeDays);
+
+  return relevance + recency;
+}
+
+/**
+ * 複数の取得元・エディションの結果をまとめ、URL と見出しの近さで重複を除き、関連度と新しさで並べる
+ * （関連度は各記事を見つけた検索語で測る）
+ */
+export function mergeNews(candidates: NewsCandidate[], max: number, halfLifeDays = 3): NewsCandidate[] {
+  const now = Date.now();
+  const ranked = candidates
+    .map((c) => ({ c, score: scoreCandidate(c, now, halfLifeDays) }))
+    .sort((x, y) => y.score - x.score)
+    .map((x) => x.c);
+
+  const picked: Array<{ c: NewsCandidate; url: string; title: string }> = [];
+  for (const c of ranked) {
+    const url = normalizeUrl(c.url);
+    const title = normalizeTitle(c.title);
+    if (picked.some((p) => p.url === url || isNearDuplicateTitle(p.title, title))) continue;
+    picked.push({ c, url, title });
+    if (picked.length >= max) break;
+  }
+  return picked.map((p) => p.c);
+}
+
+const isHttpUrl = (url: string) => /^https?:\/\//i.test(url.trim());
+
+/**
+ * 全取得元 × 全エディションに並行して問い合わせる。一部が失敗しても残りで続行し、全部失敗したときだけ例外
+ * range の外の記事（日付の無い記事も含む）と、URL が http(s) でない記事は捨てる
+ */
+export async function searchNews(
+  searches: NewsSearch[],
+  providers: NewsProvider[],
+  max: number,
+  range: NewsRange = resolveTimeWindow(DEFAULT_TIME_WINDOW)
+): Promise<NewsSource[]> {
+  // 重複除去で減る分を見込んで多めに取る
+  const perProvider = Math.min(max * 3, 10);
+  const calls = searches.flatMap((s) => providers.map((p) => ({ provider: p, search: s })));
+  const results = await Promise.allSettled(
+    calls.map(({ provider, search }) => provider.search(search.query, perProvider, search.edition, range))
+  );
+
+  const candidates: NewsCandidate[] = [];
+  const errors: string[] = [];
+  results.forEach((r, i) => {
+    if (r.status === 'fulfilled') candidates.push(...r.value);
+    else errors.push(`${calls[i].provider.name}(${calls[i].search.edition.id}): ${String(r.reason?.message ?? r.reason)}`);
+  });
+  for (const e of errors) console.warn(`[WARN] news provider skipped: ${e}`);
+  if (errors.length === calls.length) {
+    throw new Error(`All news providers failed. ${errors.join(' / ')}`);
+  }
+
+  // リンクとして画面に出すので http(s) 以外（javascript: など）は取得元を問わず捨てる
+  const linkable = candidates.filter((c) => isHttpUrl(c.url));
+  if (linkable.length < candidates.length) {
+    console.warn(`[WARN] news with a non-http URL dropped: ${candidates.length - linkable.length}`);
+  }
+
+  const inRange = linkable.filter((c) => isWithinRange(c.publishedAt, range));
+  if (inRange.length < linkable.length) {
+    console.log(`[DEBUG] news outside the time window dropped: ${linkable.length - inRange.length}`);
+  }
+
+  return mergeNews(inRange, max, recencyHalfLifeDays(range)).map(({ title, url, sourceName, publishedAt }) => ({
+    title,
+    url,
+    sourceName,
+    publishedAt,
+  }));
+}
+
+export type NewsStage = 'news' | 'scraping';
+
+// 本文が一部しか無い記事は、LLM が読み違えないよう見出しに注記する
+const QUALITY_NOTES: Record<ExtractionQuality, string> = {
+  full: '',
+  partial: ' ※本文の一部のみ',
+  paywalled: ' ※有料記事のため冒頭のみ',
+  empty: '',
+};
+
+// 日付の無い記事は最後に回す
+const publishedMs = (iso: string) => {
+  const t = Date.parse(iso);
+  return Number.isNaN(t) ? Infinity : t;
+};
+
+// 記事の公開日時（プロンプト用、UTC）
+function formatPublishedAt(iso: string): string {
+  const t = Date.parse(iso);
+  return Number.isNaN(t) ? '日付不明' : `${new Date(t).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+/**
+ * 検索 → スクレイピング → 公開日時の古い順に並べて本文に [n] を振って連結
+ * （n は sources の 1 始まりの添字と一致させる。古い順なので番号順に読めば出来事の順になる）
+ * onStage は各段階に入るときに呼ばれる（ジョブの進捗表示用）
+ * trace があれば検索と記事ごとのスクレイピングの所要時間を記録する
+ * range は対象期間（省略時は期間指定なし）
+ */
+export async function collectNews(
+  searches: NewsSearch[],
+  providers: NewsProvider[],
+  onStage?: (stage: NewsStage) => Promise<void>,
+  trace?: Trace,
+  range?: NewsRange
+): Promise<CollectedNews> {
+  const timed = <T>(name: string, fn: () => Promise<T>, detail?: Record<string, string>) =>
+    trace ? trace.span(name, fn, detail) : fn();
+  range ??= resolveTimeWindow(DEFAULT_TIME_WINDOW);
+
+  await onStage?.('news');
+  const articles = await timed('news.search', () => searchNews(searches, providers, getNewsArticleCount(), range), {
+    providers: providers.map((p) => p.name).join(','),
+    editions: searches.map((s) => s.edition.id).join(','),
+    ...(range.from ? { from: range.from, to: range.to } : {}),
+  });
+  if (articles.length === 0) return { articleCount: 0, sources: [], combinedText: '', extractions: [], range };
+
+  await onStage?.('scraping');
+
+  const extracted = await Promise.all(
+    articles.map((a) => timed('scrape', () => scrapeArticle(a.url), { url: a.url }))
+  );
+  const extractions = articles.map((a, i) => ({
+    url: a.url,
+    method: extracted[i].method,
+    quality: extracted[i].quality,
+    chars: extracted[i].text.length,
+  }));
+  if (trace) trace.log('info', 'articles extracted', { extractions });
+  else console.log('[DEBUG] extraction:', extractions.map((e) => `${e.quality}/${e.method}/${e.chars} ${e.url}`));
+
+  const used = articles
+    .map((source, i) => ({
+      source: { ...source, extraction: { method: extractions[i].method, quality: extractions[i].quality, chars: extractions[i].chars } },
+      text: extracted[i].text,
+    }))
+    .filter((x) => x.text.length > 50)
+    .sort((a, b) => publishedMs(a.source.publishedAt) - publishedMs(b.source.publishedAt));
+
+  const combinedText = used
+    .map((x, i) => {
+      const s = x.source;
+      return `[${i + 1}] ${s.title}（${s.sourceName || '出典不明'}, 公開: ${formatPublishedAt(s.publishedAt)}）${QUALITY_NOTES[s.extraction.quality]}\n${x.text}`;
+    })
+    .join('\n\n---\n\n');
+
+  return { articleCount: articles.length, sources: used.map((x) => x.source), combinedText, extractions, range };
+}
@@ -0,0 +1,147 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { enforceDailySpend, enforceRateLimit, isOverDailyLimit, recordSpend } from './rate-limit.js';
+
+function requestFrom(ip: string, headers: Record<string, string> = {}): VercelRequest {
+  return { headers: { 'x-forwarded-for': ip, ...headers } } as unknown as VercelRequest;
+}
+
+type FakeResponse = VercelResponse & { statusCode: number; headers: Record<string, string>; body: any };
+
+function fakeResponse(): FakeResponse {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as any,
+    setHeader(name: string, value: string) {
+      res.headers[name] = value;
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: any) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res as unknown as FakeResponse;
+}
+
+async function hit(req: VercelRequest) {
+  const res = fakeResponse();
+  const allowed = await enforceRateLimit(req, res, 'analyze'); // IP 10 回 / トークン 60 回（600 秒）
+  return { allowed, res };
+}
+
+const T0 = Date.UTC(2026, 9, 19, 3, 0, 0);
+
+describe('enforceRateLimit', () => {
+  beforeEach(() => {
+    vi.stubEnv('KV_BACKEND', 'memory');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(T0);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('allows requests up to the budget and rejects the next with Retry-After', async () => {
+    const req = requestFrom('10.0.0.1');
+    for (let i = 1; i <= 10; i++) {
+      const { allowed, res } = await hit(req);
+      expect(allowed).toBe(true);
+      expect(res.headers['X-RateLimit-Remaining']).toBe(String(10 - i));
+    }
+
+    const { allowed, res } = await hit(req);
+    expect(allowed).toBe(false);
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe('600');
+    expect(res.body.retryAfter).toBe(600);
+  });
+
+  it('does not count rejected requests against the window', async () => {
+    const req = requestFrom('10.0.0.2');
+    await hit(req);
+    vi.setSystemTime(T0 + 300_000);
+    for (let i = 0; i < 9; i++) expect((await hit(req)).allowed).toBe(true);
+    for (let i = 0; i < 5; i++) expect((await hit(req)).allowed).toBe(false);
+
+    // 最初の 1 回が窓から外れた分だけ、ちょうど 1 回通る
+    vi.setSystemTime(T0 + 601_000);
+    expect((await hit(req)).allowed).toBe(true);
+    const { allowed, res } = await hit(req);
+    expect(allowed).toBe(false);
+    expect(res.headers['Retry-After']).toBe('299');
+  });
+
+  it('uses the token budget only for registered tokens', async () => {
+    vi.stubEnv('API_TOKENS', 'team-token, other-token');
+
+    const registered = await hit(requestFrom('10.0.0.3', { 'x-api-key': 'team-token' }));
+    expect(registered.res.headers['X-RateLimit-Limit']).toBe('60');
+    const bearer = await hit(requestFrom('10.0.0.3', { authorization: 'Bearer other-token' }));
+    expect(bearer.res.headers['X-RateLimit-Limit']).toBe('60');
+
+    // 登録されていないトークンは同じ IP の予算を使う
+    const ip = requestFrom('10.0.0.3');
+    for (let i = 0; i < 10; i++) expect((await hit(ip)).allowed).toBe(true);
+    const unknown = await hit(requestFrom('10.0.0.3', { 'x-api-key': 'made-up' }));
+    expect(unknown.allowed).toBe(false);
+    expect(unknown.res.headers['X-RateLimit-Limit']).toBe('10');
+  });
+
+  it('does not limit anything without a KV store', async () => {
+    vi.stubEnv('KV_BACKEND', '');
+    vi.stubEnv('MARKETKV_KV_REST_API_URL', '');
+    vi.stubEnv('KV_REST_API_URL', '');
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', '');
+    const req = requestFrom('10.0.0.4');
+    for (let i = 0; i < 20; i++) expect((await hit(req)).allowed).toBe(true);
+  });
+});
+
+describe('daily spend limits', () => {
+  let day = 0;
+
+  beforeEach(() => {
+    vi.stubEnv('KV_BACKEND', 'memory');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // 回数は UTC の日ごとなので、テストごとに日を変える
+    vi.setSystemTime(T0 + ++day * 86400_000);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('reports the limit once the configured count is used up', async () => {
+    vi.stubEnv('DAILY_LIMIT_GEMINI', '2');
+    await recordSpend('gemini');
+    expect(await isOverDailyLimit('gemini')).toBe(false);
+    await recordSpend('gemini');
+    expect(await isOverDailyLimit('gemini')).toBe(true);
+
+    const res = fakeResponse();
+    expect(await enforceDailySpend(res, ['gemini'])).toBe(false);
+    expect(res.statusCode).toBe(429);
+    expect(Number(res.headers['Retry-After'])).toBeGreaterThan(0);
+  });
+
+  it.each(['0', '-1', 'abc', '1.5', ''])('treats DAILY_LIMIT_OPENAI=%j as unlimited', async (raw) => {
+    vi.stubEnv('DAILY_LIMIT_OPENAI', raw);
+    for (let i = 0; i < 3; i++) await recordSpend('openai');
+    expect(await isOverDailyLimit('openai')).toBe(false);
+  });
+
+  it('falls back to the default limit when unset', async () => {
+    vi.stubEnv('DAILY_LIMIT_GNEWS', undefined);
+    for (let i = 0; i < 99; i++) await recordSpend('gnews');
+    expect(await isOverDailyLimit('gnews')).toBe(false);
+    await recordSpend('gnews');
+    expect(await isOverDailyLimit('gnews')).toBe(true);
+  });
+});
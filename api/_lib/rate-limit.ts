@@ -0,0 +1,222 @@
+// api/_lib/rate-limit.ts
+// 呼び出し元ごとのレート制限と、外部 API の 1 日あたりの利用回数の上限（どちらも KV）。
+//  - レート制限: ルートごとの予算で、IP（または API トークン）単位のスライディングウィンドウ
+//      API_TOKENS にカンマ区切りで登録したトークンを x-api-key / Authorization: Bearer で渡すと、
+//      IP ではなくトークン単位で、より大きい予算が使える
+//  - 外部 API: DAILY_LIMIT_GNEWS / DAILY_LIMIT_GEMINI / DAILY_LIMIT_OPENAI / DAILY_LIMIT_FINNHUB（0 は無制限）
+// KV が無い / 落ちているときは制限しない（本処理を止めない）。
+import { createHash } from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { hasKvStore, kvGetString, kvPipeline, randomId } from './kv.js';
+
+/**
+ * ===== ルートごとの予算 =====
+ */
+export type RateLimitRoute = 'analyze' | 'compare' | 'follow-up' | 'market' | 'status' | 'history' | 'suggest' | 'watchlist';
+
+type RouteBudget = {
+  windowSeconds: number;
+  ip: number; // IP 単位の上限
+  token: number; // API トークン単位の上限
+};
+
+const ROUTE_BUDGETS: Record<RateLimitRoute, RouteBudget> = {
+  analyze: { windowSeconds: 600, ip: 10, token: 60 },
+  compare: { windowSeconds: 600, ip: 5, token: 30 },
+  'follow-up': { windowSeconds: 600, ip: 30, token: 200 },
+  market: { windowSeconds: 60, ip: 60, token: 300 }, // 銘柄検索・株価・株価履歴
+  status: { windowSeconds: 60, ip: 120, token: 600 }, // ジョブのポーリング
+  history: { windowSeconds: 60, ip: 60, token: 300 },
+  suggest: { windowSeconds: 60, ip: 120, token: 600 }, // 入力補完（キー入力ごと）
+  watchlist: { windowSeconds: 60, ip: 30, token: 300 }, // 一覧・追加・削除（定期分析は CRON_SECRET で別に守る）
+};
+
+/**
+ * ===== 呼び出し元の特定 =====
+ */
+function headerOf(req: VercelRequest, name: string): string {
+  const v = req.headers[name];
+  return (Array.isArray(v) ? v[0] : v) ?? '';
+}
+
+function clientIp(req: VercelRequest): string {
+  const forwarded = headerOf(req, 'x-forwarded-for').split(',')[0].trim();
+  return forwarded || headerOf(req, 'x-real-ip') || req.socket?.remoteAddress || 'unknown';
+}
+
+function apiToken(req: VercelRequest): string | null {
+  const token = headerOf(req, 'x-api-key') || headerOf(req, 'authorization').replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+  const allowed = (process.env.API_TOKENS ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter((s) => s);
+  // 登録されていないトークンは無視して IP で数える
+  return allowed.includes(token) ? token : null;
+}
+
+function hashId(s: string): string {
+  return createHash('sha256').update(s).digest('hex').slice(0, 16);
+}
+
+/**
+ * ===== スライディングウィンドウ（sorted set にリクエスト時刻を積む） =====
+ */
+type WindowResult = { allowed: boolean; limit: number; remaining: number; resetSeconds: number };
+
+async function hitWindow(key: string, limit: number, windowSeconds: number): Promise<WindowResult | null> {
+  const now = Date.now();
+  const windowMs = windowSeconds * 1000;
+  const member = `${now}-${randomId()}`;
+
+  const results = await kvPipeline([
+    ['ZREMRANGEBYSCORE', key, 0, now - windowMs],
+    ['ZADD', key, now, member],
+    ['ZCARD', key],
+    ['ZRANGE', key, 0, 0, 'WITHSCORES'],
+    ['PEXPIRE', key, windowMs],
+  ]);
+  if (!results) return null;
+
+  const count = Number(results[2] ?? 0);
+  const oldest = Array.isArray(results[3]) ? Number(results[3][1]) : now;
+  const resetSeconds = Math.max(1, Math.ceil((oldest + windowMs - now) / 1000));
+
+  if (count > limit) {
+    // 断ったリクエストは数えない（待てば確実に通るように）
+    await kvPipeline([['ZREM', key, member]]);
+    return { allowed: false, limit, remaining: 0, resetSeconds };
+  }
+  return { allowed: true, limit, remaining: limit - count, resetSeconds };
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds}秒`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)}分`;
+  return `${Math.ceil(seconds / 3600)}時間`;
+}
+
+function sendTooMany(res: VercelResponse, retryAfter: number, error: string): void {
+  res.setHeader('Retry-After', String(retryAfter));
+  res.status(429).json({ error, retryAfter });
+}
+
+/**
+ * ルートの予算を 1 回分消費する。超えていたら 429 を返して false
+ * 使い方: if (!(await enforceRateLimit(req, res, 'analyze'))) return;
+ */
+export async function enforceRateLimit(
+  req: VercelRequest,
+  res: VercelResponse,
+  route: RateLimitRoute
+): Promise<boolean> {
+  if (!hasKvStore()) return true;
+
+  const budget = ROUTE_BUDGETS[route];
+  const token = apiToken(req);
+  const key = token ? `rl:${route}:token:${hashId(token)}` : `rl:${route}:ip:${hashId(clientIp(req))}`;
+  const limit = token ? budget.token : budget.ip;
+
+  let result: WindowResult | null;
+  try {
+    result = await hitWindow(key, limit, budget.windowSeconds);
+  } catch (e: any) {
+    console.warn(`[WARN] rate limit skipped: ${String(e?.message ?? e)}`);
+    return true;
+  }
+  if (!result) return true;
+
+  res.setHeader('X-RateLimit-Limit', String(result.limit));
+  res.setHeader('X-RateLimit-Remaining', String(result.remaining));
+  res.setHeader('X-RateLimit-Reset', String(result.resetSeconds));
+
+  if (result.allowed) return true;
+  sendTooMany(
+    res,
+    result.resetSeconds,
+    `リクエストが多すぎます。${formatWait(result.resetSeconds)}ほど待ってから再度お試しください。`
+  );
+  return false;
+}
+
+/**
+ * ===== 外部 API の 1 日あたりの利用回数 =====
+ */
+export type UpstreamApi = 'gnews' | 'gemini' | 'openai' | 'finnhub';
+
+// GNews の無料プランは 1 日 100 リクエスト
+const DEFAULT_DAILY_LIMITS: Record<UpstreamApi, number> = {
+  gnews: 100,
+  gemini: 0,
+  openai: 0,
+  finnhub: 0,
+};
+
+function dailyLimit(api: UpstreamApi): number {
+  const raw = process.env[`DAILY_LIMIT_${api.toUpperCase()}`];
+  const n = raw === undefined ? DEFAULT_DAILY_LIMITS[api] : Number(raw);
+  return Number.isInteger(n) && n > 0 ? n : 0;
+}
+
+// 日付は UTC で切り替える
+function spendKey(api: UpstreamApi): string {
+  return `spend:${api}:${new Date().toISOString().slice(0, 10).replace(/-/g, '')}`;
+}
+
+function secondsUntilUtcMidnight(): number {
+  const now = new Date();
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.max(1, Math.ceil((next - now.getTime()) / 1000));
+}
+
+/**
+ * 外部 API を 1 回呼んだことを記録する（失敗しても本処理は続行）
+ */
+export async function recordSpend(api: UpstreamApi): Promise<void> {
+  try {
+    await kvPipeline([
+      ['INCR', spendKey(api)],
+      ['EXPIRE', spendKey(api), 2 * 86400],
+    ]);
+  } catch (e: any) {
+    console.warn(`[WARN] spend counter skipped (${api}): ${String(e?.message ?? e)}`);
+  }
+}
+
+/**
+ * 上流に届いて処理された呼び出しだけ数える（fetch の応答を受け取ってから呼ぶ）
+ * 通信エラー・タイムアウトで届かなかった分と、レート制限・混雑で断られた 429 / 503 は数えない
+ */
+export async function recordServedSpend(api: UpstreamApi, status: number): Promise<void> {
+  if (status !== 429 && status !== 503) await recordSpend(api);
+}
+
+/**
+ * 今日の上限に達しているか（上限なし / KV が使えないときは false）
+ */
+export async function isOverDailyLimit(api: UpstreamApi): Promise<boolean> {
+  const limit = dailyLimit(api);
+  if (!limit) return false;
+  try {
+    const used = Number((await kvGetString(spendKey(api))) ?? 0);
+    if (used < limit) return false;
+    console.warn(`[WARN] daily limit reached: ${api} ${used}/${limit}`);
+    return true;
+  } catch (e: any) {
+    console.warn(`[WARN] spend check skipped (${api}): ${String(e?.message ?? e)}`);
+    return false;
+  }
+}
+
+/**
+ * 今日の上限に達している外部 API があれば 429 を返して false
+ */
+export async function enforceDailySpend(res: VercelResponse, apis: UpstreamApi[]): Promise<boolean> {
+  for (const api of apis) {
+    if (!(await isOverDailyLimit(api))) continue;
+    const retryAfter = secondsUntilUtcMidnight();
+    sendTooMany(res, retryAfter, `本日の外部 API の利用上限に達しました。${formatWait(retryAfter)}ほどで再開します。`);
+    return false;
+  }
+  return true;
+}
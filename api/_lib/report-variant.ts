@@ -0,0 +1,77 @@
+// api/_lib/report-variant.ts
+// レポートの組み合わせ（観点・出力言語・ニュースのエディション・対象期間）。
+// キャッシュ・ロック・履歴のキーはこの組み合わせごとに分かれる（analysis.ts と history.ts の両方が使う）。
+import { DEFAULT_LENS_ID, isLensId, type AnalysisLensId } from './lenses.js';
+import {
+  DEFAULT_NEWS_EDITIONS,
+  DEFAULT_OUTPUT_LANGUAGE,
+  isDefaultNewsEditions,
+  isOutputLanguage,
+  parseNewsEditions,
+  type NewsEditionId,
+  type OutputLanguage,
+} from './locales.js';
+import { DEFAULT_TIME_WINDOW, isDefaultTimeWindow, parseTimeWindow, timeWindowKey, type TimeWindow } from './time-window.js';
+
+// 同じ企業でもこの組み合わせごとに別のレポート（キャッシュ・ロック・履歴の版）になる
+export type ReportVariant = {
+  lens: AnalysisLensId;
+  outputLanguage: OutputLanguage;
+  newsEditions: NewsEditionId[]; // 並べ替え済み（locales.ts の parseNewsEditions）
+  timeWindow: TimeWindow;
+};
+
+export const DEFAULT_REPORT_VARIANT: ReportVariant = {
+  lens: DEFAULT_LENS_ID,
+  outputLanguage: DEFAULT_OUTPUT_LANGUAGE,
+  newsEditions: DEFAULT_NEWS_EDITIONS,
+  timeWindow: DEFAULT_TIME_WINDOW,
+};
+
+// 既定と違う項目だけキーに足す（既定の組み合わせは従来どおり report:<companyKey>。比較機能などが読むキャッシュ）
+export function reportVariantSuffix(variant: ReportVariant): string {
+  const parts: string[] = [];
+  if (variant.lens !== DEFAULT_LENS_ID) parts.push(`lens:${variant.lens}`);
+  if (variant.outputLanguage !== DEFAULT_OUTPUT_LANGUAGE) parts.push(`lang:${variant.outputLanguage}`);
+  if (!isDefaultNewsEditions(variant.newsEditions)) parts.push(`news:${variant.newsEditions.join('+')}`);
+  if (!isDefaultTimeWindow(variant.timeWindow)) parts.push(`window:${timeWindowKey(variant.timeWindow)}`);
+  return parts.map((p) => `:${p}`).join('');
+}
+
+// 欠けている項目は既定として比べる（古い履歴の版には組み合わせの一部が無い）
+export function isSameReportVariant(a: Partial<ReportVariant>, b: ReportVariant): boolean {
+  return reportVariantSuffix({ ...DEFAULT_REPORT_VARIANT, ...a }) === reportVariantSuffix(b);
+}
+
+/**
+ * GET のクエリから組み合わせを読む（未指定の項目は既定、不正ならエラーメッセージ）
+ *  - newsEditions : カンマ区切り（"ja-jp,en-us"）
+ *  - timeWindow   : "24h" | "7d" | "30d" | "all" | "2026-10-01..2026-10-15"
+ */
+export function parseReportVariantQuery(query: Record<string, unknown>): ReportVariant | { error: string } {
+  const { lens, outputLanguage, newsEditions, timeWindow } = query;
+  if (lens !== undefined && !isLensId(lens)) {
+    return { error: `lens の値が正しくありません（${String(lens)}）。` };
+  }
+  if (outputLanguage !== undefined && !isOutputLanguage(outputLanguage)) {
+    return { error: `outputLanguage の値が正しくありません（${String(outputLanguage)}）。` };
+  }
+  const editions = parseNewsEditions(typeof newsEditions === 'string' ? newsEditions.split(',') : newsEditions);
+  if (!editions) return { error: 'newsEditions の値が正しくありません。' };
+
+  let rawWindow: unknown = timeWindow;
+  if (typeof timeWindow === 'string' && timeWindow.includes('..')) {
+    const [from, to] = timeWindow.split('..');
+    rawWindow = { preset: 'custom', from, to };
+  }
+  // 保存済みの版を探すだけなので、期間が未来かどうかは問わない
+  const window = parseTimeWindow(rawWindow, Infinity);
+  if ('error' in window) return window;
+
+  return {
+    lens: lens ?? DEFAULT_LENS_ID,
+    outputLanguage: outputLanguage ?? DEFAULT_OUTPUT_LANGUAGE,
+    newsEditions: editions,
+    timeWindow: window,
+  };
+}
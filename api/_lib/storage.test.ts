@@ -0,0 +1,229 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFileStore, createMemoryStore, type KvStore } from './storage.js';
+
+const tmp = mkdtempSync(path.join(tmpdir(), 'kv-test-'));
+let fileCount = 0;
+const nextFilePath = () => path.join(tmp, `kv-${++fileCount}.json`);
+
+afterAll(() => rmSync(tmp, { recursive: true, force: true }));
+
+// Upstash（Redis）と同じ結果になること。memory と file は同じ実装だが、file は書き出しも通る
+describe.each([
+  ['memory', () => createMemoryStore()],
+  ['file', () => createFileStore(nextFilePath())],
+])('%s backend', (_name, create: () => KvStore) => {
+  let store: KvStore;
+  const run = async (...cmd: Array<string | number>) => (await store.pipeline([cmd]))[0];
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.UTC(2026, 9, 19));
+    store = create();
+  });
+  afterEach(() => vi.useRealTimers());
+
+  describe('strings', () => {
+    it('sets and gets values, null when missing', async () => {
+      expect(await run('GET', 'k')).toBeNull();
+      expect(await run('SET', 'k', 'v')).toBe('OK');
+      expect(await run('GET', 'k')).toBe('v');
+      expect(await run('SET', 'n', 42)).toBe('OK');
+      expect(await run('GET', 'n')).toBe('42');
+    });
+
+    it('honours NX and XX', async () => {
+      expect(await run('SET', 'k', 'a', 'XX')).toBeNull();
+      expect(await run('GET', 'k')).toBeNull();
+      expect(await run('SET', 'k', 'a', 'NX')).toBe('OK');
+      expect(await run('SET', 'k', 'b', 'NX')).toBeNull();
+      expect(await run('GET', 'k')).toBe('a');
+      expect(await run('SET', 'k', 'c', 'XX')).toBe('OK');
+      expect(await run('GET', 'k')).toBe('c');
+    });
+
+    it('lets NX succeed again once the key has expired', async () => {
+      expect(await run('SET', 'lock', 'a', 'NX', 'EX', 10)).toBe('OK');
+      vi.advanceTimersByTime(10_000);
+      expect(await run('SET', 'lock', 'b', 'NX', 'EX', 10)).toBe('OK');
+      expect(await run('GET', 'lock')).toBe('b');
+    });
+
+    it('counts with INCR and keeps the existing expiry', async () => {
+      expect(await run('INCR', 'c')).toBe(1);
+      expect(await run('EXPIRE', 'c', 60)).toBe(1);
+      expect(await run('INCR', 'c')).toBe(2);
+      expect(await run('TTL', 'c')).toBe(60);
+      await run('SET', 'text', 'abc');
+      await expect(run('INCR', 'text')).rejects.toThrow('not an integer');
+    });
+
+    it('deletes and checks existence across several keys', async () => {
+      await store.pipeline([['SET', 'a', '1'], ['SET', 'b', '2']]);
+      expect(await run('EXISTS', 'a', 'b', 'c')).toBe(2);
+      expect(await run('DEL', 'a', 'c')).toBe(1);
+      expect(await run('EXISTS', 'a', 'b')).toBe(1);
+    });
+  });
+
+  describe('expiry', () => {
+    it('reports TTL/PTTL like Redis (-2 missing, -1 no expiry)', async () => {
+      expect(await run('TTL', 'none')).toBe(-2);
+      await run('SET', 'k', 'v');
+      expect(await run('TTL', 'k')).toBe(-1);
+      await run('SET', 'px', 'v', 'PX', 1500);
+      expect(await run('PTTL', 'px')).toBe(1500);
+      expect(await run('TTL', 'px')).toBe(2);
+      expect(await run('EXPIRE', 'none', 10)).toBe(0);
+    });
+
+    it('drops keys once EX / PX / SETEX / PEXPIRE runs out', async () => {
+      await store.pipeline([
+        ['SET', 'ex', 'v', 'EX', 2],
+        ['SET', 'px', 'v', 'PX', 500],
+        ['SETEX', 'setex', 1, 'v'],
+        ['LPUSH', 'list', 'x'],
+        ['PEXPIRE', 'list', 1000],
+      ]);
+      vi.advanceTimersByTime(500);
+      expect(await run('GET', 'px')).toBeNull();
+      expect(await run('GET', 'setex')).toBe('v');
+      vi.advanceTimersByTime(500);
+      expect(await run('GET', 'setex')).toBeNull();
+      expect(await run('LRANGE', 'list', 0, -1)).toEqual([]);
+      expect(await run('GET', 'ex')).toBe('v');
+      vi.advanceTimersByTime(1000);
+      expect(await run('EXISTS', 'ex')).toBe(0);
+    });
+  });
+
+  describe('lists', () => {
+    it('pushes to the head and ranges with negative indexes', async () => {
+      expect(await run('LPUSH', 'l', 'a')).toBe(1);
+      expect(await run('LPUSH', 'l', 'b', 'c')).toBe(3);
+      expect(await run('LRANGE', 'l', 0, -1)).toEqual(['c', 'b', 'a']);
+      expect(await run('LRANGE', 'l', -2, -1)).toEqual(['b', 'a']);
+      expect(await run('LRANGE', 'l', 1, 100)).toEqual(['b', 'a']);
+      expect(await run('LRANGE', 'missing', 0, -1)).toEqual([]);
+    });
+
+    it('trims to the given range and removes emptied lists', async () => {
+      await run('LPUSH', 'l', 'a', 'b', 'c', 'd');
+      expect(await run('LTRIM', 'l', 0, 1)).toBe('OK');
+      expect(await run('LRANGE', 'l', 0, -1)).toEqual(['d', 'c']);
+      await run('LTRIM', 'l', 5, 10);
+      expect(await run('EXISTS', 'l')).toBe(0);
+    });
+  });
+
+  describe('sorted sets', () => {
+    it('adds members, updates scores and counts only new members', async () => {
+      expect(await run('ZADD', 'z', 3, 'c', 1, 'a')).toBe(2);
+      expect(await run('ZADD', 'z', 2, 'a')).toBe(0);
+      expect(await run('ZCARD', 'z')).toBe(2);
+      expect(await run('ZRANGE', 'z', 0, -1)).toEqual(['a', 'c']);
+    });
+
+    it('orders ties by member and returns scores as strings', async () => {
+      await run('ZADD', 'z', 5, 'b', 5, 'a', 1, 'x');
+      expect(await run('ZRANGE', 'z', 0, -1, 'WITHSCORES')).toEqual(['x', '1', 'a', '5', 'b', '5']);
+      expect(await run('ZRANGE', 'z', 0, 0, 'WITHSCORES')).toEqual(['x', '1']);
+    });
+
+    it('removes members by score with inclusive and exclusive bounds', async () => {
+      await run('ZADD', 'z', 1, 'a', 2, 'b', 3, 'c', 4, 'd');
+      expect(await run('ZREMRANGEBYSCORE', 'z', 0, 2)).toBe(2);
+      expect(await run('ZRANGE', 'z', 0, -1)).toEqual(['c', 'd']);
+      expect(await run('ZREMRANGEBYSCORE', 'z', '(3', '+inf')).toBe(1);
+      expect(await run('ZRANGE', 'z', 0, -1)).toEqual(['c']);
+      expect(await run('ZREM', 'z', 'c', 'nope')).toBe(1);
+      expect(await run('EXISTS', 'z')).toBe(0);
+    });
+  });
+
+  describe('pipeline', () => {
+    it('returns results in order and lets later commands see earlier writes', async () => {
+      const results = await store.pipeline([
+        ['INCR', 'p'],
+        ['INCR', 'p'],
+        ['GET', 'p'],
+        ['DEL', 'p'],
+        ['GET', 'p'],
+      ]);
+      expect(results).toEqual([1, 2, '2', 1, null]);
+    });
+
+    it('still runs the remaining commands when one fails, then throws', async () => {
+      await run('LPUSH', 'list', 'x');
+      await expect(
+        store.pipeline([
+          ['SET', 'before', '1'],
+          ['INCR', 'list'],
+          ['SET', 'after', '1'],
+        ])
+      ).rejects.toThrow('WRONGTYPE');
+      expect(await run('GET', 'before')).toBe('1');
+      expect(await run('GET', 'after')).toBe('1');
+    });
+
+    it('rejects commands it does not implement', async () => {
+      await expect(run('HSET', 'h', 'f', 'v')).rejects.toThrow('unknown command');
+    });
+  });
+
+  describe('compareAndDelete', () => {
+    it('deletes only when the value matches', async () => {
+      await run('SET', 'lock', 'mine');
+      expect(await store.compareAndDelete('lock', 'theirs')).toBe(false);
+      expect(await run('GET', 'lock')).toBe('mine');
+      expect(await store.compareAndDelete('lock', 'mine')).toBe(true);
+      expect(await run('GET', 'lock')).toBeNull();
+      expect(await store.compareAndDelete('lock', 'mine')).toBe(false);
+    });
+
+    it('does not delete a key that has already expired and been taken over', async () => {
+      await run('SET', 'lock', 'mine', 'EX', 1);
+      vi.advanceTimersByTime(1000);
+      expect(await store.compareAndDelete('lock', 'mine')).toBe(false);
+      await run('SET', 'lock', 'theirs', 'NX', 'EX', 1);
+      expect(await store.compareAndDelete('lock', 'mine')).toBe(false);
+      expect(await run('GET', 'lock')).toBe('theirs');
+    });
+  });
+});
+
+describe('file backend persistence', () => {
+  it('reloads what was written, including writes from a failed pipeline', async () => {
+    const file = nextFilePath();
+    const store = createFileStore(file);
+    await store.pipeline([
+      ['SET', 'k', 'v'],
+      ['ZADD', 'z', 1, 'a'],
+      ['LPUSH', 'l', 'x'],
+    ]);
+    await expect(store.pipeline([['SET', 'late', '1'], ['INCR', 'l']])).rejects.toThrow('WRONGTYPE');
+    await store.compareAndDelete('k', 'v');
+
+    const reopened = createFileStore(file);
+    expect(await reopened.pipeline([['GET', 'k'], ['ZRANGE', 'z', 0, -1], ['LRANGE', 'l', 0, -1], ['GET', 'late']])).toEqual([
+      null,
+      ['a'],
+      ['x'],
+      '1',
+    ]);
+  });
+
+  it('starts empty when the file is broken', async () => {
+    const file = nextFilePath();
+    const store = createFileStore(file);
+    await store.pipeline([['SET', 'k', 'v']]);
+    writeFileSync(file, '{not json');
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const reopened = createFileStore(file);
+    expect(await reopened.pipeline([['GET', 'k']])).toEqual([null]);
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,376 @@
+// api/_lib/storage.ts
+// KV の保存先（バックエンド）。kv.ts のヘルパーはすべてここの KvStore を通す。
+//  - upstash: Upstash REST（本番）
+//  - memory : プロセス内の Map（ローカル開発・動作確認用。再起動で消える）
+//  - file   : memory と同じ実装で、変更のたびに JSON ファイルへ書き出す（単一プロセス前提）
+// KV_BACKEND で選ぶ。未指定なら Upstash の設定があれば upstash、無ければ KV なし（null）。
+// memory / file はサーバーレスではインスタンス間で共有されないので、本番では upstash を使う。
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+
+export type KvBackend = 'upstash' | 'memory' | 'file';
+
+// Redis のコマンド（例: ['SET', key, value, 'NX', 'EX', 60]）
+export type KvCommand = Array<string | number>;
+
+export type KvStore = {
+  backend: KvBackend;
+  // コマンドを順に実行し、各コマンドの結果を返す（どれかがエラーなら、残りも実行したうえで例外）
+  pipeline(commands: KvCommand[]): Promise<unknown[]>;
+  // 値が expected と一致するときだけ削除する（アトミック）。削除したら true
+  compareAndDelete(key: string, expected: string): Promise<boolean>;
+};
+
+/**
+ * ===== Upstash REST =====
+ * 優先順位:
+ *  1) Vercel Connect Project の Custom Prefix が MARKETKV の場合:
+ *     - MARKETKV_KV_REST_API_URL / MARKETKV_KV_REST_API_TOKEN
+ *  2) 旧来:
+ *     - KV_REST_API_URL / KV_REST_API_TOKEN
+ *  3) Upstash直:
+ *     - UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN
+ */
+export function getKvConfig(): { url: string; token: string } | null {
+  const url =
+    process.env.MARKETKV_KV_REST_API_URL ??
+    process.env.KV_REST_API_URL ??
+    process.env.UPSTASH_REDIS_REST_URL;
+
+  const token =
+    process.env.MARKETKV_KV_REST_API_TOKEN ??
+    process.env.KV_REST_API_TOKEN ??
+    process.env.UPSTASH_REDIS_REST_TOKEN;
+
+  if (!url || !token) return null;
+
+  return { url: url.replace(/\/+$/, ''), token };
+}
+
+type UpstashRestResponse = { result?: unknown; error?: string };
+
+// GET と DEL の間に別の呼び出しが割り込まないよう、サーバー側で比較と削除をまとめて行う
+const COMPARE_AND_DELETE_SCRIPT =
+  "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) else return 0 end";
+
+export function createUpstashStore(cfg: { url: string; token: string }): KvStore {
+  async function pipeline(commands: KvCommand[]): Promise<unknown[]> {
+    const resp = await fetch(`${cfg.url}/pipeline`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${cfg.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(commands),
+    });
+
+    const raw = await resp.text();
+    if (!resp.ok) throw new Error(`KV pipeline failed: ${resp.status} ${raw}`);
+
+    const data = JSON.parse(raw) as Array<UpstashRestResponse>;
+    if (!Array.isArray(data)) throw new Error(`KV pipeline unexpected response: ${raw}`);
+
+    const failed = data.find((d) => d?.error);
+    if (failed) throw new Error(`KV pipeline error: ${failed.error}`);
+
+    return data.map((d) => d?.result);
+  }
+
+  async function compareAndDelete(key: string, expected: string): Promise<boolean> {
+    const [deleted] = await pipeline([['EVAL', COMPARE_AND_DELETE_SCRIPT, 1, key, expected]]);
+    return Number(deleted) > 0;
+  }
+
+  return { backend: 'upstash', pipeline, compareAndDelete };
+}
+
+/**
+ * ===== プロセス内（Redis のコマンドのうち api/ で使うものだけ実装） =====
+ * 1 回の pipeline は同期的に実行するので、他の呼び出しが割り込むことはない（＝アトミック）
+ */
+type Entry =
+  | { type: 'string'; value: string; expiresAt?: number }
+  | { type: 'list'; value: string[]; expiresAt?: number }
+  | { type: 'zset'; value: Record<string, number>; expiresAt?: number };
+
+type Snapshot = Record<string, Entry>;
+
+// 値を書き換えないコマンド（file バックエンドで書き出しを省くため）
+const READ_ONLY_COMMANDS = new Set(['GET', 'LRANGE', 'ZCARD', 'ZRANGE', 'TTL', 'PTTL', 'EXISTS']);
+
+// Redis の start / stop（負数は末尾から、stop は含む）を slice の範囲にする
+function rangeOf(length: number, start: number, stop: number): [number, number] {
+  const from = Math.max(0, start < 0 ? length + start : start);
+  const to = Math.min(length - 1, stop < 0 ? length + stop : stop);
+  return [from, to + 1];
+}
+
+// "(" で始まる境界はその値を含まない
+function parseScoreBound(v: string | number): { score: number; exclusive: boolean } {
+  const s = String(v);
+  const exclusive = s.startsWith('(');
+  const rest = exclusive ? s.slice(1) : s;
+  if (rest === '-inf') return { score: -Infinity, exclusive };
+  if (rest === '+inf' || rest === 'inf') return { score: Infinity, exclusive };
+  return { score: Number(rest), exclusive };
+}
+
+function wrongType(command: string): never {
+  throw new Error(`KV ${command} error: WRONGTYPE Operation against a key holding the wrong kind of value`);
+}
+
+export function createMemoryStore(opts: { backend?: KvBackend; initial?: Snapshot; onChange?: (data: Snapshot) => void } = {}): KvStore {
+  const data: Snapshot = opts.initial ?? {};
+
+  // 期限切れは読むときに消す
+  const live = (key: string): Entry | undefined => {
+    const entry = data[key];
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      delete data[key];
+      return undefined;
+    }
+    return entry;
+  };
+
+  const stringOf = (command: string, key: string) => {
+    const e = live(key);
+    if (e && e.type !== 'string') wrongType(command);
+    return e;
+  };
+  const listOf = (command: string, key: string) => {
+    const e = live(key);
+    if (e && e.type !== 'list') wrongType(command);
+    return e;
+  };
+  const zsetOf = (command: string, key: string) => {
+    const e = live(key);
+    if (e && e.type !== 'zset') wrongType(command);
+    return e;
+  };
+
+  const expire = (key: string, ms: number): number => {
+    const e = live(key);
+    if (!e) return 0;
+    e.expiresAt = Date.now() + ms;
+    return 1;
+  };
+
+  function run(cmd: KvCommand): unknown {
+    const [rawName, ...args] = cmd;
+    const name = String(rawName).toUpperCase();
+    const key = String(args[0]);
+
+    switch (name) {
+      case 'GET':
+        return stringOf(name, key)?.value ?? null;
+
+      case 'SET': {
+        const value = String(args[1]);
+        const flags = args.slice(2).map((a) => String(a).toUpperCase());
+        const exists = live(key) !== undefined;
+        if (flags.includes('NX') && exists) return null;
+        if (flags.includes('XX') && !exists) return null;
+        const ex = flags.indexOf('EX');
+        const px = flags.indexOf('PX');
+        const ttlMs = ex >= 0 ? Number(args[2 + ex + 1]) * 1000 : px >= 0 ? Number(args[2 + px + 1]) : undefined;
+        data[key] = { type: 'string', value, ...(ttlMs !== undefined ? { expiresAt: Date.now() + ttlMs } : {}) };
+        return 'OK';
+      }
+
+      case 'SETEX':
+        data[key] = { type: 'string', value: String(args[2]), expiresAt: Date.now() + Number(args[1]) * 1000 };
+        return 'OK';
+
+      case 'DEL': {
+        let n = 0;
+        for (const k of args.map(String)) {
+          if (live(k)) {
+            delete data[k];
+            n++;
+          }
+        }
+        return n;
+      }
+
+      case 'EXISTS':
+        return args.map(String).filter((k) => live(k)).length;
+
+      case 'INCR': {
+        const e = stringOf(name, key);
+        const n = Number(e?.value ?? 0);
+        if (!Number.isInteger(n)) throw new Error('KV INCR error: ERR value is not an integer or out of range');
+        data[key] = { type: 'string', value: String(n + 1), ...(e?.expiresAt !== undefined ? { expiresAt: e.expiresAt } : {}) };
+        return n + 1;
+      }
+
+      case 'EXPIRE':
+        return expire(key, Number(args[1]) * 1000);
+
+      case 'PEXPIRE':
+        return expire(key, Number(args[1]));
+
+      case 'TTL':
+      case 'PTTL': {
+        const e = live(key);
+        if (!e) return -2;
+        if (e.expiresAt === undefined) return -1;
+        const ms = e.expiresAt - Date.now();
+        return name === 'TTL' ? Math.ceil(ms / 1000) : ms;
+      }
+
+      case 'LPUSH': {
+        const e = listOf(name, key) ?? { type: 'list' as const, value: [] };
+        e.value.unshift(...args.slice(1).map(String).reverse());
+        data[key] = e;
+        return e.value.length;
+      }
+
+      case 'LTRIM': {
+        const e = listOf(name, key);
+        if (!e) return 'OK';
+        e.value = e.value.slice(...rangeOf(e.value.length, Number(args[1]), Number(args[2])));
+        if (e.value.length === 0) delete data[key];
+        return 'OK';
+      }
+
+      case 'LRANGE': {
+        const e = listOf(name, key);
+        return e ? e.value.slice(...rangeOf(e.value.length, Number(args[1]), Number(args[2]))) : [];
+      }
+
+      case 'ZADD': {
+        const e = zsetOf(name, key) ?? { type: 'zset' as const, value: {} };
+        let added = 0;
+        for (let i = 1; i + 1 < args.length; i += 2) {
+          const member = String(args[i + 1]);
+          if (!(member in e.value)) added++;
+          e.value[member] = Number(args[i]);
+        }
+        data[key] = e;
+        return added;
+      }
+
+      case 'ZREM': {
+        const e = zsetOf(name, key);
+        if (!e) return 0;
+        let removed = 0;
+        for (const member of args.slice(1).map(String)) {
+          if (member in e.value) {
+            delete e.value[member];
+            removed++;
+          }
+        }
+        if (Object.keys(e.value).length === 0) delete data[key];
+        return removed;
+      }
+
+      case 'ZREMRANGEBYSCORE': {
+        const e = zsetOf(name, key);
+        if (!e) return 0;
+        const min = parseScoreBound(args[1]);
+        const max = parseScoreBound(args[2]);
+        let removed = 0;
+        for (const [member, score] of Object.entries(e.value)) {
+          const aboveMin = min.exclusive ? score > min.score : score >= min.score;
+          const belowMax = max.exclusive ? score < max.score : score <= max.score;
+          if (aboveMin && belowMax) {
+            delete e.value[member];
+            removed++;
+          }
+        }
+        if (Object.keys(e.value).length === 0) delete data[key];
+        return removed;
+      }
+
+      case 'ZCARD':
+        return Object.keys(zsetOf(name, key)?.value ?? {}).length;
+
+      case 'ZRANGE': {
+        const e = zsetOf(name, key);
+        if (!e) return [];
+        const sorted = Object.entries(e.value).sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]));
+        const picked = sorted.slice(...rangeOf(sorted.length, Number(args[1]), Number(args[2])));
+        const withScores = args.slice(3).some((a) => String(a).toUpperCase() === 'WITHSCORES');
+        // Upstash と同じくスコアは文字列で返す
+        return withScores ? picked.flatMap(([m, s]) => [m, String(s)]) : picked.map(([m]) => m);
+      }
+
+      default:
+        throw new Error(`KV ${name} error: ERR unknown command (${opts.backend ?? 'memory'} backend)`);
+    }
+  }
+
+  // Upstash と同じく、途中のコマンドがエラーになっても残りは実行する（実行した分は書き出してから例外にする）
+  async function pipeline(commands: KvCommand[]): Promise<unknown[]> {
+    let failure: unknown = null;
+    const results = commands.map((cmd) => {
+      try {
+        return run(cmd);
+      } catch (e) {
+        failure ??= e;
+        return null;
+      }
+    });
+    if (commands.some((c) => !READ_ONLY_COMMANDS.has(String(c[0]).toUpperCase()))) opts.onChange?.(data);
+    if (failure) throw failure;
+    return results;
+  }
+
+  async function compareAndDelete(key: string, expected: string): Promise<boolean> {
+    if (stringOf('GET', key)?.value !== expected) return false;
+    delete data[key];
+    opts.onChange?.(data);
+    return true;
+  }
+
+  return { backend: opts.backend ?? 'memory', pipeline, compareAndDelete };
+}
+
+/**
+ * ===== ファイル（KV_FILE_PATH、既定 .data/kv.json） =====
+ * 起動時に読み込み、変更のたびに一時ファイル経由で書き換える（途中で落ちても壊れないように）
+ */
+export function createFileStore(filePath: string): KvStore {
+  let initial: Snapshot = {};
+  if (existsSync(filePath)) {
+    try {
+      initial = JSON.parse(readFileSync(filePath, 'utf8')) as Snapshot;
+    } catch (e: any) {
+      console.warn(`[WARN] KV file ignored (${filePath}): ${String(e?.message ?? e)}`);
+    }
+  }
+
+  const persist = (data: Snapshot) => {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.tmp`;
+    writeFileSync(tmp, JSON.stringify(data));
+    renameSync(tmp, filePath);
+  };
+
+  return createMemoryStore({ backend: 'file', initial, onChange: persist });
+}
+
+/**
+ * ===== 選択 =====
+ */
+let localStore: KvStore | null = null;
+
+export function getKvStore(): KvStore | null {
+  const backend = (process.env.KV_BACKEND ?? '').trim().toLowerCase();
+
+  if (backend === 'memory' || backend === 'file') {
+    if (localStore?.backend !== backend) {
+      localStore =
+        backend === 'memory'
+          ? createMemoryStore()
+          : createFileStore(path.resolve(process.env.KV_FILE_PATH ?? '.data/kv.json'));
+    }
+    return localStore;
+  }
+
+  if (backend && backend !== 'upstash') {
+    console.warn(`[WARN] unknown KV_BACKEND: ${backend}`);
+  }
+  const cfg = getKvConfig();
+  return cfg ? createUpstashStore(cfg) : null;
+}
@@ -0,0 +1,225 @@
+// api/_lib/structured-analysis.ts
+// Markdown レポートと並べて返す構造化分析（JSON）の定義・検証・生成
+import type { LlmGenerateResult, LlmInput, LlmProvider } from './llm.js';
+import { DEFAULT_OUTPUT_LANGUAGE, OUTPUT_LANGUAGES, type OutputLanguage } from './locales.js';
+import type { Trace } from './trace.js';
+
+// 各項目の sources はレポートと同じ出典番号（sources[n - 1]）
+export type AnalysisPoint = {
+  text: string;
+  sources: number[];
+};
+
+export type StructuredAnalysis = {
+  sentiment: {
+    score: number; // -1（非常にネガティブ）〜 1（非常にポジティブ）
+    label: 'positive' | 'neutral' | 'negative';
+    rationale: string;
+    sources: number[];
+  };
+  topics: Array<{ title: string; summary: string; sources: number[] }>;
+  positiveFactors: AnalysisPoint[];
+  negativeFactors: AnalysisPoint[];
+  watchPoints: {
+    shortTerm: AnalysisPoint[];
+    midTerm: AnalysisPoint[];
+  };
+};
+
+const sourcesSchema = { type: 'array', items: { type: 'integer' } };
+const pointSchema = {
+  type: 'object',
+  properties: { text: { type: 'string' }, sources: sourcesSchema },
+  required: ['text', 'sources'],
+};
+
+// Gemini の responseSchema（OpenAPI 3.0 サブセット）。プロンプトにもそのまま載せる
+export const STRUCTURED_ANALYSIS_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    sentiment: {
+      type: 'object',
+      properties: {
+        score: { type: 'number' },
+        label: { type: 'string', enum: ['positive', 'neutral', 'negative'] },
+        rationale: { type: 'string' },
+        sources: sourcesSchema,
+      },
+      required: ['score', 'label', 'rationale', 'sources'],
+    },
+    topics: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { title: { type: 'string' }, summary: { type: 'string' }, sources: sourcesSchema },
+        required: ['title', 'summary', 'sources'],
+      },
+    },
+    positiveFactors: { type: 'array', items: pointSchema },
+    negativeFactors: { type: 'array', items: pointSchema },
+    watchPoints: {
+      type: 'object',
+      properties: {
+        shortTerm: { type: 'array', items: pointSchema },
+        midTerm: { type: 'array', items: pointSchema },
+      },
+      required: ['shortTerm', 'midTerm'],
+    },
+  },
+  required: ['sentiment', 'topics', 'positiveFactors', 'negativeFactors', 'watchPoints'],
+};
+
+/**
+ * ===== 検証 =====
+ * 型が合わないものはエラーにする（リトライのきっかけにする）。
+ * 出典番号だけは範囲外を黙って捨てる（モデルが存在しない番号を作ることがあるため）。
+ */
+export function fail(path: string, expected: string): never {
+  throw new Error(`invalid output: ${path} must be ${expected}`);
+}
+
+export function asString(v: unknown, path: string): string {
+  if (typeof v !== 'string') fail(path, 'a string');
+  return v.trim();
+}
+
+function asSources(v: unknown, path: string, sourceCount: number): number[] {
+  if (v === undefined) return [];
+  if (!Array.isArray(v)) fail(path, 'an array of integers');
+  const nums = v.filter((n): n is number => Number.isInteger(n) && n >= 1 && n <= sourceCount);
+  return Array.from(new Set(nums));
+}
+
+function asPoints(v: unknown, path: string, sourceCount: number): AnalysisPoint[] {
+  if (!Array.isArray(v)) fail(path, 'an array');
+  return v.map((p: any, i) => ({
+    text: asString(p?.text, `${path}[${i}].text`),
+    sources: asSources(p?.sources, `${path}[${i}].sources`, sourceCount),
+  }));
+}
+
+// ```json ... ``` で囲んでくるモデルがあるので外してから parse する
+export function parseJsonObject(text: string): any {
+  const body = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let data: any;
+  try {
+    data = JSON.parse(body);
+  } catch (e: any) {
+    throw new Error(`invalid JSON (${String(e?.message ?? e)})`);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) fail('root', 'an object');
+  return data;
+}
+
+export function parseStructuredAnalysis(text: string, sourceCount: number): StructuredAnalysis {
+  const data = parseJsonObject(text);
+
+  const s = data.sentiment;
+  if (typeof s !== 'object' || s === null) fail('sentiment', 'an object');
+  if (typeof s.score !== 'number' || !Number.isFinite(s.score)) fail('sentiment.score', 'a number');
+  if (!['positive', 'neutral', 'negative'].includes(s.label)) {
+    fail('sentiment.label', '"positive" | "neutral" | "negative"');
+  }
+
+  if (!Array.isArray(data.topics)) fail('topics', 'an array');
+  if (typeof data.watchPoints !== 'object' || data.watchPoints === null) fail('watchPoints', 'an object');
+
+  return {
+    sentiment: {
+      score: Math.max(-1, Math.min(1, s.score)),
+      label: s.label,
+      rationale: asString(s.rationale, 'sentiment.rationale'),
+      sources: asSources(s.sources, 'sentiment.sources', sourceCount),
+    },
+    topics: data.topics.map((t: any, i: number) => ({
+      title: asString(t?.title, `topics[${i}].title`),
+      summary: asString(t?.summary, `topics[${i}].summary`),
+      sources: asSources(t?.sources, `topics[${i}].sources`, sourceCount),
+    })),
+    positiveFactors: asPoints(data.positiveFactors, 'positiveFactors', sourceCount),
+    negativeFactors: asPoints(data.negativeFactors, 'negativeFactors', sourceCount),
+    watchPoints: {
+      shortTerm: asPoints(data.watchPoints.shortTerm, 'watchPoints.shortTerm', sourceCount),
+      midTerm: asPoints(data.watchPoints.midTerm, 'watchPoints.midTerm', sourceCount),
+    },
+  };
+}
+
+/**
+ * ===== 生成 =====
+ * JSON を生成させて parse で検証する。壊れた JSON が返ってきたら、
+ * エラー内容を伝えて maxRetries 回まで作り直させる。
+ */
+export async function generateJson<T>(
+  llm: LlmProvider,
+  opts: {
+    prompt: string;
+    schema: Record<string, unknown>;
+    parse: (text: string) => T;
+    maxRetries?: number;
+    trace?: Trace;
+  }
+): Promise<{ value: T; generated: LlmGenerateResult }> {
+  const maxRetries = opts.maxRetries ?? 1;
+
+  let input: LlmInput = opts.prompt;
+  let lastError: unknown = null;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const generated = await llm.generate(input, { json: { schema: opts.schema }, trace: opts.trace });
+    try {
+      return { value: opts.parse(generated.text), generated };
+    } catch (e: any) {
+      lastError = e;
+      console.warn(`[WARN] JSON output rejected (attempt ${attempt + 1}): ${String(e?.message ?? e)}`);
+      input = {
+        messages: [
+          { role: 'user', content: opts.prompt },
+          { role: 'assistant', content: generated.text },
+          {
+            role: 'user',
+            content: `出力が不正でした: ${String(e?.message ?? e)}\nスキーマに従った JSON だけを出力し直してください。`,
+          },
+        ],
+      };
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error(String(lastError));
+}
+
+export async function generateStructuredAnalysis(
+  llm: LlmProvider,
+  opts: {
+    companyName: string;
+    newsText: string;
+    sourceCount: number;
+    focus?: string; // レポートと同じ観点で読ませる（lenses.ts）
+    outputLanguage?: OutputLanguage;
+    maxRetries?: number;
+    trace?: Trace;
+  }
+): Promise<{ analysis: StructuredAnalysis; generated: LlmGenerateResult }> {
+  const prompt =
+    `あなたはマーケットアナリストです。` +
+    `「${opts.companyName}」について、下のニュースだけを根拠に構造化した分析を JSON で出力してください。\n\n` +
+    (opts.focus ? `# 観点\n${opts.focus}\n\n` : '') +
+    `# ルール\n` +
+    `- 次の JSON Schema に厳密に従い、JSON 以外の文字（説明文やコードブロック）は出力しない。\n` +
+    `- sentiment.score は -1（非常にネガティブ）〜 1（非常にポジティブ）の数値。\n` +
+    `- 各項目の sources には根拠となった記事の番号（ニュース本文の [n] の n）を整数で入れる。\n` +
+    `- 文章は${OUTPUT_LANGUAGES[opts.outputLanguage ?? DEFAULT_OUTPUT_LANGUAGE].instruction}各 text は1〜2文に収める。\n` +
+    `- label などの列挙値とキー名はスキーマのまま（翻訳しない）。\n\n` +
+    `# JSON Schema\n${JSON.stringify(STRUCTURED_ANALYSIS_SCHEMA)}\n\n` +
+    `# ニュース本文（抜粋）\n${opts.newsText}`;
+
+  const { value, generated } = await generateJson(llm, {
+    prompt,
+    schema: STRUCTURED_ANALYSIS_SCHEMA,
+    parse: (text) => parseStructuredAnalysis(text, opts.sourceCount),
+    maxRetries: opts.maxRetries,
+    trace: opts.trace,
+  });
+  return { analysis: value, generated };
+}
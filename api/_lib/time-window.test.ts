@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { isWithinRange, parseTimeWindow, recencyHalfLifeDays, resolveTimeWindow } from './time-window.js';
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+
+describe('parseTimeWindow', () => {
+  it('defaults to no window when omitted', () => {
+    expect(parseTimeWindow(undefined, NOW)).toEqual({ preset: 'all' });
+    expect(parseTimeWindow(null, NOW)).toEqual({ preset: 'all' });
+  });
+
+  it('accepts presets as strings or objects', () => {
+    expect(parseTimeWindow('7d', NOW)).toEqual({ preset: '7d' });
+    expect(parseTimeWindow({ preset: '24h' }, NOW)).toEqual({ preset: '24h' });
+  });
+
+  it.each([
+    ['an unknown preset', '1y'],
+    ['a malformed date', { preset: 'custom', from: '2026/10/01', to: '2026-10-15' }],
+    ['a date that does not exist', { preset: 'custom', from: '2026-02-31', to: '2026-03-01' }],
+    ['a missing end', { preset: 'custom', from: '2026-10-01' }],
+    ['from after to', { preset: 'custom', from: '2026-10-15', to: '2026-10-01' }],
+    ['a start in the future', { preset: 'custom', from: '2026-10-20', to: '2026-10-21' }],
+  ])('rejects %s', (_name, raw) => {
+    expect(parseTimeWindow(raw, NOW)).toHaveProperty('error');
+  });
+
+  it('allows up to 365 days including both ends', () => {
+    expect(parseTimeWindow({ preset: 'custom', from: '2025-10-20', to: '2026-10-19' }, NOW)).toEqual({
+      preset: 'custom',
+      from: '2025-10-20',
+      to: '2026-10-19',
+    });
+    expect(parseTimeWindow({ preset: 'custom', from: '2025-10-19', to: '2026-10-19' }, NOW)).toHaveProperty('error');
+  });
+
+  it('allows a single day starting today', () => {
+    expect(parseTimeWindow({ preset: 'custom', from: '2026-10-19', to: '2026-10-19' }, NOW)).not.toHaveProperty('error');
+  });
+});
+
+describe('resolveTimeWindow', () => {
+  it('counts presets back from now', () => {
+    expect(resolveTimeWindow({ preset: '24h' }, NOW)).toEqual({ from: '2026-10-18T12:00:00.000Z', to: '2026-10-19T12:00:00.000Z' });
+    expect(resolveTimeWindow({ preset: 'all' }, NOW)).toEqual({ from: null, to: '2026-10-19T12:00:00.000Z' });
+  });
+
+  it('runs a custom window to the end of its last day, but not past now', () => {
+    expect(resolveTimeWindow({ preset: 'custom', from: '2026-10-01', to: '2026-10-15' }, NOW)).toEqual({
+      from: '2026-10-01T00:00:00.000Z',
+      to: '2026-10-15T23:59:59.999Z',
+    });
+    expect(resolveTimeWindow({ preset: 'custom', from: '2026-10-01', to: '2026-10-19' }, NOW).to).toBe('2026-10-19T12:00:00.000Z');
+  });
+});
+
+describe('isWithinRange', () => {
+  const range = { from: '2026-10-01T00:00:00.000Z', to: '2026-10-15T23:59:59.999Z' };
+
+  it('includes both ends', () => {
+    expect(isWithinRange('2026-10-01T00:00:00Z', range)).toBe(true);
+    expect(isWithinRange('2026-10-15T23:59:59.999Z', range)).toBe(true);
+    expect(isWithinRange('2026-09-30T23:59:59Z', range)).toBe(false);
+    expect(isWithinRange('2026-10-16T00:00:00Z', range)).toBe(false);
+  });
+
+  it('drops undated articles only when a window is set', () => {
+    expect(isWithinRange('', range)).toBe(false);
+    expect(isWithinRange('', { from: null, to: range.to })).toBe(true);
+  });
+});
+
+describe('recencyHalfLifeDays', () => {
+  it('shortens the half-life as the window narrows', () => {
+    const of = (preset: '24h' | '7d' | '30d' | 'all') => recencyHalfLifeDays(resolveTimeWindow({ preset }, NOW));
+    expect(of('24h')).toBe(0.25);
+    expect(of('7d')).toBe(1.75);
+    expect(of('30d')).toBe(7.5);
+    expect(of('all')).toBe(3);
+  });
+});
@@ -0,0 +1,118 @@
+// api/_lib/time-window.ts
+// ニュースの対象期間。プリセット（直近 24 時間 / 7 日 / 30 日）か、日付で指定する期間（UTC の日単位）。
+// キャッシュキーにはプリセット名（カスタムは日付）を使い、実際の日時の範囲は検索のたびに求める。
+
+export type TimeWindowPreset = 'all' | '24h' | '7d' | '30d' | 'custom';
+
+export type TimeWindow =
+  | { preset: Exclude<TimeWindowPreset, 'custom'> }
+  | { preset: 'custom'; from: string; to: string }; // YYYY-MM-DD（両端を含む）
+
+// 実際に検索した範囲（ISO8601。from が null なら期間指定なし）
+export type NewsRange = {
+  from: string | null;
+  to: string;
+};
+
+export const DEFAULT_TIME_WINDOW: TimeWindow = { preset: 'all' };
+
+// カスタム期間の上限（取得元が古い記事を返せないことが多いため）
+export const MAX_CUSTOM_WINDOW_DAYS = 365;
+
+const DAY_MS = 86400000;
+
+const PRESET_MS: Record<'24h' | '7d' | '30d', number> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+};
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDay(s: string): number | null {
+  if (!DATE_RE.test(s)) return null;
+  const t = Date.parse(`${s}T00:00:00Z`);
+  // 2026-02-31 のような存在しない日付は弾く
+  return Number.isNaN(t) || new Date(t).toISOString().slice(0, 10) !== s ? null : t;
+}
+
+/**
+ * リクエストボディの timeWindow を検証する（未指定は期間指定なし、不正ならエラーメッセージ）
+ *  - "24h" | "7d" | "30d" | "all"
+ *  - { preset: "custom", from: "2026-10-01", to: "2026-10-15" }（プリセットも { preset } の形で受け付ける）
+ */
+export function parseTimeWindow(raw: unknown, now = Date.now()): TimeWindow | { error: string } {
+  if (raw === undefined || raw === null) return DEFAULT_TIME_WINDOW;
+  const preset = typeof raw === 'string' ? raw : (raw as any)?.preset;
+  if (preset === 'all' || preset === '24h' || preset === '7d' || preset === '30d') return { preset };
+  if (preset !== 'custom') return { error: `timeWindow の値が正しくありません（${String(preset)}）。` };
+
+  const from = String((raw as any).from ?? '');
+  const to = String((raw as any).to ?? '');
+  const fromMs = parseDay(from);
+  const toMs = parseDay(to);
+  if (fromMs === null || toMs === null) return { error: 'timeWindow の from / to は YYYY-MM-DD で指定してください。' };
+  if (fromMs > toMs) return { error: 'timeWindow の from は to 以前の日付にしてください。' };
+  if (fromMs > now) return { error: 'timeWindow の from に未来の日付は指定できません。' };
+  if ((toMs - fromMs) / DAY_MS + 1 > MAX_CUSTOM_WINDOW_DAYS) {
+    return { error: `timeWindow は ${MAX_CUSTOM_WINDOW_DAYS} 日以内にしてください。` };
+  }
+  return { preset: 'custom', from, to };
+}
+
+export function isDefaultTimeWindow(w: TimeWindow): boolean {
+  return w.preset === DEFAULT_TIME_WINDOW.preset;
+}
+
+// キャッシュキー用（"7d" / "2026-10-01..2026-10-15"）
+export function timeWindowKey(w: TimeWindow): string {
+  return w.preset === 'custom' ? `${w.from}..${w.to}` : w.preset;
+}
+
+/**
+ * 実際の日時の範囲にする（プリセットは now から遡る。カスタムの to はその日の終わりまで、ただし now を超えない）
+ */
+export function resolveTimeWindow(w: TimeWindow, now = Date.now()): NewsRange {
+  if (w.preset === 'all') return { from: null, to: new Date(now).toISOString() };
+  if (w.preset === 'custom') {
+    const from = parseDay(w.from) ?? now;
+    const to = Math.min(now, (parseDay(w.to) ?? now) + DAY_MS - 1);
+    return { from: new Date(from).toISOString(), to: new Date(to).toISOString() };
+  }
+  return { from: new Date(now - PRESET_MS[w.preset]).toISOString(), to: new Date(now).toISOString() };
+}
+
+export function isWithinRange(publishedAt: string, range: NewsRange): boolean {
+  if (!range.from) return true;
+  const t = Date.parse(publishedAt);
+  // 日付の無い記事は、期間を指定したときは使わない（期間外かどうか判断できない）
+  return !Number.isNaN(t) && t >= Date.parse(range.from) && t <= Date.parse(range.to);
+}
+
+/**
+ * 新しさの半減期（日）。期間が短いほど新しい記事を強く優先する
+ */
+export function recencyHalfLifeDays(range: NewsRange): number {
+  if (!range.from) return 3;
+  const spanDays = (Date.parse(range.to) - Date.parse(range.from)) / DAY_MS;
+  return Math.max(0.25, spanDays / 4);
+}
+
+/**
+ * レポートのキャッシュ期間。「直近 24 時間」のレポートを何日も返さないよう、期間が短いほど短くする
+ * （過去の日付で閉じたカスタム期間は内容が変わらないので既定のまま）
+ */
+export function windowCacheTtlSeconds(w: TimeWindow, fallback: number, now = Date.now()): number {
+  switch (w.preset) {
+    case '24h':
+      return Math.min(fallback, 3600);
+    case '7d':
+      return Math.min(fallback, 6 * 3600);
+    case '30d':
+      return Math.min(fallback, 86400);
+    case 'custom':
+      return (parseDay(w.to) ?? now) + DAY_MS <= now ? fallback : Math.min(fallback, 3600);
+    default:
+      return fallback;
+  }
+}
@@ -0,0 +1,125 @@
+// api/_lib/trace.ts
+// リクエスト単位の計測（段階ごとの所要時間・使ったモデル・トークン数）と構造化ログ。
+// 1 行 1 JSON で出すので、Vercel のログでも requestId で絞り込める。
+// 集めた結果はレスポンスの meta としてクライアントにも返す。
+import type { VercelRequest } from '@vercel/node';
+import { randomId } from './kv.js';
+import type { LlmProviderName, LlmUsage } from './llm.js';
+
+export type TraceSpan = {
+  name: string; // 例: "news.search" / "scrape" / "llm.listModels" / "generation.report"
+  startMs: number; // リクエスト開始からの経過
+  durationMs: number;
+  ok: boolean;
+  detail?: Record<string, string | number | boolean>;
+};
+
+export type TraceModel = {
+  provider: LlmProviderName;
+  name: string;
+  version?: string;
+};
+
+// レスポンスの meta
+export type ResponseMeta = {
+  requestId: string;
+  route: string;
+  startedAt: string;
+  totalMs: number;
+  spans: TraceSpan[]; // 開始順
+  models: TraceModel[]; // 呼び出したモデル（重複なし）
+  usage: LlmUsage | null; // 全呼び出しの合計（プロバイダが返さなければ null）
+};
+
+export type Trace = {
+  requestId: string;
+  // fn の所要時間を name で記録する（失敗しても記録してから投げ直す）
+  span<T>(name: string, fn: () => Promise<T>, detail?: TraceSpan['detail']): Promise<T>;
+  recordLlm(model: TraceModel, usage?: LlmUsage): void;
+  log(level: 'info' | 'warn' | 'error', msg: string, fields?: Record<string, unknown>): void;
+  meta(): ResponseMeta;
+};
+
+type Level = 'info' | 'warn' | 'error';
+
+function writeLog(level: Level, entry: Record<string, unknown>): void {
+  const line = JSON.stringify({ level, time: new Date().toISOString(), ...entry });
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+}
+
+/**
+ * 呼び出し元が付けた x-request-id を引き継ぐ（無ければ Vercel の ID → 新規）
+ */
+export function requestIdOf(req: VercelRequest): string {
+  const header = req.headers['x-request-id'] ?? req.headers['x-vercel-id'];
+  const id = (Array.isArray(header) ? header[0] : header)?.trim();
+  return id && /^[\w.:-]{1,128}$/.test(id) ? id : randomId();
+}
+
+export function createTrace(route: string, requestId: string = randomId()): Trace {
+  const started = Date.now();
+  const startedAt = new Date(started).toISOString();
+  const spans: TraceSpan[] = [];
+  const models: TraceModel[] = [];
+  let usage: LlmUsage | null = null;
+
+  const log: Trace['log'] = (level, msg, fields) => writeLog(level, { requestId, route, msg, ...fields });
+
+  async function span<T>(name: string, fn: () => Promise<T>, detail?: TraceSpan['detail']): Promise<T> {
+    const t0 = Date.now();
+    const entry: TraceSpan = { name, startMs: t0 - started, durationMs: 0, ok: true, ...(detail ? { detail } : {}) };
+    spans.push(entry);
+    try {
+      return await fn();
+    } catch (e) {
+      entry.ok = false;
+      throw e;
+    } finally {
+      entry.durationMs = Date.now() - t0;
+    }
+  }
+
+  function recordLlm(model: TraceModel, u?: LlmUsage): void {
+    if (!models.some((m) => m.provider === model.provider && m.name === model.name && m.version === model.version)) {
+      models.push(model);
+    }
+    if (u) {
+      usage = {
+        promptTokens: (usage?.promptTokens ?? 0) + u.promptTokens,
+        completionTokens: (usage?.completionTokens ?? 0) + u.completionTokens,
+        totalTokens: (usage?.totalTokens ?? 0) + u.totalTokens,
+      };
+    }
+  }
+
+  function meta(): ResponseMeta {
+    return {
+      requestId,
+      route,
+      startedAt,
+      totalMs: Date.now() - started,
+      spans: spans.map((s) => ({ ...s })),
+      models: [...models],
+      usage,
+    };
+  }
+
+  return { requestId, span, recordLlm, log, meta };
+}
+
+/**
+ * 終了時のまとめのログ（段階ごとの所要時間を 1 行で）
+ */
+export function logTraceSummary(trace: Trace, fields?: Record<string, unknown>): ResponseMeta {
+  const meta = trace.meta();
+  trace.log('info', 'request finished', {
+    totalMs: meta.totalMs,
+    spans: meta.spans.map((s) => ({ name: s.name, ms: s.durationMs, ok: s.ok, ...s.detail })),
+    models: meta.models,
+    usage: meta.usage,
+    ...fields,
+  });
+  return meta;
+}
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildWatchSummary, detectChanges, type ReportSnapshot, type WatchStatus, type WatchlistEntry } from './watchlist.js';
+
+const snapshot = (s: Partial<ReportSnapshot> = {}): ReportSnapshot => ({
+  generatedAt: '2026-10-18T22:30:00.000Z',
+  sentiment: { score: 0.1, label: 'neutral' },
+  topics: [{ title: '新型車の販売が好調', urls: ['https://news.example.com/a'] }],
+  risks: [{ text: '半導体不足による減産', urls: ['https://news.example.com/a'] }],
+  articleUrls: ['https://news.example.com/a'],
+  ...s,
+});
+
+describe('detectChanges', () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('does not flag the first run', () => {
+    const change = detectChanges(null, snapshot({ sentiment: { score: -0.9, label: 'negative' } }));
+    expect(change.material).toBe(false);
+    expect(change.baselineAt).toBeNull();
+  });
+
+  it('does not flag an unchanged report', () => {
+    const change = detectChanges(snapshot(), snapshot());
+    expect(change.material).toBe(false);
+    expect(change.reasons).toEqual([]);
+  });
+
+  it('flags a label flip even when the score barely moves', () => {
+    const change = detectChanges(snapshot(), snapshot({ sentiment: { score: 0.15, label: 'positive' } }));
+    expect(change.material).toBe(true);
+    expect(change.reasons[0]).toContain('neutral（+0.10） → positive（+0.15）');
+  });
+
+  it.each([
+    [0.39, false],
+    [0.4, true],
+    [-0.2, true],
+  ])('uses the default score threshold of 0.3 (0.1 → %s: %s)', (score, material) => {
+    expect(detectChanges(snapshot(), snapshot({ sentiment: { score, label: 'neutral' } })).material).toBe(material);
+  });
+
+  it('reads the threshold from WATCHLIST_SENTIMENT_DELTA', () => {
+    vi.stubEnv('WATCHLIST_SENTIMENT_DELTA', '0.5');
+    expect(detectChanges(snapshot(), snapshot({ sentiment: { score: 0.5, label: 'neutral' } })).material).toBe(false);
+    expect(detectChanges(snapshot(), snapshot({ sentiment: { score: 0.6, label: 'neutral' } })).material).toBe(true);
+  });
+
+  it('does not treat a reworded risk citing no new article as new', () => {
+    const next = snapshot({ risks: [{ text: '半導体の供給不足で生産を縮小', urls: ['https://news.example.com/a'] }] });
+    const change = detectChanges(snapshot(), next);
+    expect(change.newRisks).toEqual([]);
+    expect(change.material).toBe(false);
+  });
+
+  it('does not treat the same risk as new when a new article repeats it', () => {
+    const next = snapshot({
+      risks: [{ text: '半導体不足による減産。', urls: ['https://news.example.com/b'] }],
+      articleUrls: ['https://news.example.com/a', 'https://news.example.com/b'],
+    });
+    const change = detectChanges(snapshot(), next);
+    expect(change.newRisks).toEqual([]);
+    expect(change.newArticleCount).toBe(1);
+    expect(change.material).toBe(false);
+  });
+
+  it('flags a new risk from a new article', () => {
+    const next = snapshot({
+      risks: [...snapshot().risks, { text: 'リコールの届け出', urls: ['https://news.example.com/b'] }],
+      articleUrls: ['https://news.example.com/a', 'https://news.example.com/b'],
+    });
+    const change = detectChanges(snapshot(), next);
+    expect(change.newRisks).toEqual(['リコールの届け出']);
+    expect(change.material).toBe(true);
+  });
+
+  it('lists new topics without flagging them on their own', () => {
+    const next = snapshot({
+      topics: [...snapshot().topics, { title: '海外工場の新設', urls: ['https://news.example.com/b'] }],
+      articleUrls: ['https://news.example.com/a', 'https://news.example.com/b'],
+    });
+    const change = detectChanges(snapshot(), next);
+    expect(change.newTopics).toEqual(['海外工場の新設']);
+    expect(change.material).toBe(false);
+  });
+});
+
+describe('buildWatchSummary', () => {
+  const entry = (companyName: string): WatchlistEntry => ({ companyKey: companyName, companyName, addedAt: '' });
+  const ok = (prev: ReportSnapshot | null, next: ReportSnapshot): WatchStatus => ({
+    runId: 'r',
+    checkedAt: '',
+    status: 'ok',
+    change: detectChanges(prev, next),
+  });
+
+  it('returns null when nothing changed unless asked to always send', () => {
+    const items = [
+      { entry: entry('トヨタ自動車'), status: ok(null, snapshot()) },
+      { entry: entry('ソニーグループ'), status: ok(snapshot(), snapshot()) },
+    ];
+    expect(buildWatchSummary(items)).toBeNull();
+    expect(buildWatchSummary(items, true)).toContain('目立った変化なし: 2 社');
+  });
+
+  it('lists changed and failed companies and counts the rest', () => {
+    const summary = buildWatchSummary([
+      { entry: entry('トヨタ自動車'), status: ok(snapshot(), snapshot({ sentiment: { score: -0.5, label: 'negative' } })) },
+      { entry: entry('ソニーグループ'), status: { runId: 'r', checkedAt: '', status: 'failed', error: 'timeout' } },
+      { entry: entry('任天堂'), status: ok(snapshot(), snapshot()) },
+    ])!;
+    expect(summary).toContain('• *トヨタ自動車*: センチメント');
+    expect(summary).toContain('• ソニーグループ: 分析に失敗しました（timeout）');
+    expect(summary).not.toContain('任天堂');
+    expect(summary).toContain('目立った変化なし: 1 社');
+  });
+});
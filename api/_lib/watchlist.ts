@@ -0,0 +1,287 @@
+// api/_lib/watchlist.ts
+// ウォッチリスト（毎朝まとめて再分析する企業）と、前回の定期分析からの変化の検出・通知文。
+//  - watchlist                       … 企業の一覧（JSON 配列。期限なし）
+//  - watchlist:status:<companyKey>   … 直近の定期分析の結果と、次回の比較の基準にするスナップショット
+//  - watchlist:notified:<runId>      … その回の通知を送ったか（二重送信を防ぐ）
+// 定期分析は既定の組み合わせ（DEFAULT_REPORT_VARIANT）で行うので、画面の既定の分析と同じキャッシュが温まる。
+import { parseCachedReport, reportCacheKey, type CachedReport } from './analysis.js';
+import { canonicalizeCompany } from './companies.js';
+import { acquireLock, kvDel, kvGetString, kvPipeline, kvSetEx, releaseLock } from './kv.js';
+import { isSameHeadline } from './news.js';
+import type { StructuredAnalysis } from './structured-analysis.js';
+
+export const MAX_WATCHLIST_ENTRIES = 20;
+export const WATCH_STATUS_TTL_SECONDS = 86400 * 30;
+const NOTIFIED_TTL_SECONDS = 86400 * 2;
+
+const WATCHLIST_KEY = 'watchlist';
+// 画面からの追加・削除が同時に来ても、互いの変更を消さないように
+const WATCHLIST_LOCK_KEY = 'lock:watchlist';
+const WATCHLIST_LOCK_TTL_SECONDS = 10;
+
+export type WatchlistEntry = {
+  companyKey: string;
+  companyName: string; // 正式名
+  addedAt: string;
+};
+
+// 比較に使うレポートの要約（本文は持たない）。出典番号は URL に直してある
+export type ReportSnapshot = {
+  generatedAt: string;
+  sentiment: { score: number; label: StructuredAnalysis['sentiment']['label'] } | null;
+  topics: Array<{ title: string; urls: string[] }>;
+  risks: Array<{ text: string; urls: string[] }>; // ネガティブ要因
+  articleUrls: string[];
+};
+
+export type ReportChange = {
+  material: boolean; // 通知する変化か
+  reasons: string[]; // 通知・画面に出す変化の説明
+  sentiment: { from: NonNullable<ReportSnapshot['sentiment']>; to: NonNullable<ReportSnapshot['sentiment']> } | null;
+  newTopics: string[];
+  newRisks: string[];
+  newArticleCount: number;
+  baselineAt: string | null; // 比べた前回のレポートの生成日時（初回は null）
+};
+
+export type WatchStatus = {
+  runId: string;
+  checkedAt: string;
+  status: 'ok' | 'failed' | 'skipped';
+  error?: string;
+  change?: ReportChange;
+  snapshot?: ReportSnapshot; // 次回の比較の基準（失敗・見送りのときは前回のものを引き継ぐ）
+};
+
+/**
+ * ===== 一覧 =====
+ */
+function statusKey(companyKey: string): string {
+  return `watchlist:status:${companyKey}`;
+}
+
+function isEntry(v: any): v is WatchlistEntry {
+  return typeof v?.companyKey === 'string' && typeof v?.companyName === 'string' && typeof v?.addedAt === 'string';
+}
+
+export async function getWatchlist(): Promise<WatchlistEntry[]> {
+  const raw = await kvGetString(WATCHLIST_KEY);
+  if (!raw) return [];
+  try {
+    const data = JSON.parse(raw);
+    return Array.isArray(data) ? data.filter(isEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+export type WatchlistUpdate =
+  | { ok: true; entries: WatchlistEntry[] }
+  | { ok: false; status: 400 | 409; error: string };
+
+/**
+ * 一覧を読み、update の結果を保存する（update がエラーを返したら保存しない）
+ */
+async function updateWatchlist(
+  update: (entries: WatchlistEntry[]) => WatchlistEntry[] | { status: 400; error: string }
+): Promise<WatchlistUpdate> {
+  const lockVal = await acquireLock(WATCHLIST_LOCK_KEY, WATCHLIST_LOCK_TTL_SECONDS);
+  if (!lockVal) return { ok: false, status: 409, error: 'ウォッチリストを更新中です。少し待って再実行してください。' };
+  try {
+    const next = update(await getWatchlist());
+    if (!Array.isArray(next)) return { ok: false, ...next };
+    await kvPipeline([['SET', WATCHLIST_KEY, JSON.stringify(next)]]);
+    return { ok: true, entries: next };
+  } finally {
+    try {
+      await releaseLock(WATCHLIST_LOCK_KEY, lockVal);
+    } catch (e: any) {
+      console.warn(`[WARN] watchlist lock release skipped: ${String(e?.message ?? e)}`);
+    }
+  }
+}
+
+// 表記揺れは正式名にそろえる。登録済みならそのまま
+export async function addToWatchlist(companyName: string): Promise<WatchlistUpdate> {
+  const company = canonicalizeCompany(companyName);
+  return updateWatchlist((entries) => {
+    if (entries.some((e) => e.companyKey === company.id)) return entries;
+    if (entries.length >= MAX_WATCHLIST_ENTRIES) {
+      return { status: 400, error: `ウォッチリストに登録できるのは ${MAX_WATCHLIST_ENTRIES} 社までです。` };
+    }
+    return [...entries, { companyKey: company.id, companyName: company.name, addedAt: new Date().toISOString() }];
+  });
+}
+
+export async function removeFromWatchlist(companyName: string): Promise<WatchlistUpdate> {
+  const companyKey = canonicalizeCompany(companyName).id;
+  const result = await updateWatchlist((entries) => entries.filter((e) => e.companyKey !== companyKey));
+  if (result.ok) {
+    try {
+      await kvDel(statusKey(companyKey));
+    } catch (e: any) {
+      console.warn(`[WARN] watch status delete skipped: ${String(e?.message ?? e)}`);
+    }
+  }
+  return result;
+}
+
+/**
+ * ===== 定期分析の結果 =====
+ */
+export async function getWatchStatuses(companyKeys: string[]): Promise<Record<string, WatchStatus>> {
+  if (companyKeys.length === 0) return {};
+  const results = await kvPipeline(companyKeys.map((k) => ['GET', statusKey(k)]));
+  const statuses: Record<string, WatchStatus> = {};
+  companyKeys.forEach((key, i) => {
+    const raw = results?.[i];
+    if (typeof raw !== 'string') return;
+    try {
+      statuses[key] = JSON.parse(raw) as WatchStatus;
+    } catch {
+      // 壊れた値は無かったことにする（次回は初回として扱う）
+    }
+  });
+  return statuses;
+}
+
+export async function saveWatchStatus(companyKey: string, status: WatchStatus): Promise<void> {
+  await kvSetEx(statusKey(companyKey), JSON.stringify(status), WATCH_STATUS_TTL_SECONDS);
+}
+
+/**
+ * その回の通知を送る権利を取る（取れたら true。残りが 0 の呼び出しが重なっても 1 回だけ送る）
+ */
+export async function claimRunNotification(runId: string): Promise<boolean> {
+  const results = await kvPipeline([['SET', `watchlist:notified:${runId}`, '1', 'NX', 'EX', NOTIFIED_TTL_SECONDS]]);
+  return results?.[0] === 'OK';
+}
+
+// 送信に失敗したら、同じ回の次の呼び出しで送り直せるように戻す
+export async function releaseRunNotification(runId: string): Promise<void> {
+  await kvDel(`watchlist:notified:${runId}`);
+}
+
+/**
+ * ===== 変化の検出 =====
+ */
+export function snapshotOf(report: CachedReport): ReportSnapshot {
+  const urlsOf = (sources: number[]) =>
+    sources.map((n) => report.sources[n - 1]?.url).filter((u): u is string => typeof u === 'string' && u !== '');
+  const a = report.analysis;
+  return {
+    generatedAt: report.generatedAt,
+    sentiment: a ? { score: a.sentiment.score, label: a.sentiment.label } : null,
+    topics: a ? a.topics.map((t) => ({ title: t.title, urls: urlsOf(t.sources) })) : [],
+    risks: a ? a.negativeFactors.map((f) => ({ text: f.text, urls: urlsOf(f.sources) })) : [],
+    articleUrls: report.sources.map((s) => s.url).filter((u) => u),
+  };
+}
+
+// 初めて定期分析する企業は、既定の組み合わせのキャッシュがあればそれを基準にする
+export async function cachedSnapshot(companyKey: string): Promise<ReportSnapshot | null> {
+  const raw = await kvGetString(reportCacheKey(companyKey));
+  const cached = raw ? parseCachedReport(raw) : null;
+  return cached?.generatedAt ? snapshotOf(cached) : null;
+}
+
+// センチメントのスコアがこれ以上動いたら通知する（ラベルが変わったときは差に関係なく通知）
+const DEFAULT_SENTIMENT_DELTA = 0.3;
+
+function sentimentDelta(): number {
+  const n = Number(process.env.WATCHLIST_SENTIMENT_DELTA);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_SENTIMENT_DELTA;
+}
+
+function formatSentiment(s: NonNullable<ReportSnapshot['sentiment']>): string {
+  return `${s.label}（${s.score >= 0 ? '+' : ''}${s.score.toFixed(2)}）`;
+}
+
+/**
+ * 前回のスナップショットと比べる。通知するのは次のどちらかのとき:
+ *  - センチメントのラベルが変わった / スコアが閾値（WATCHLIST_SENTIMENT_DELTA）以上動いた
+ *  - 新しいネガティブ要因が出てきた
+ * 新しいトピックは説明には載せるが、それだけでは通知しない（ほぼ毎日出るため）。
+ * トピック・要因は生成のたびに言い回しが変わるので、前回に無かった記事を出典に含み、
+ * かつ前回のどれとも見出しが近くないものだけを「新しい」とみなす。
+ */
+export function detectChanges(prev: ReportSnapshot | null, next: ReportSnapshot): ReportChange {
+  if (!prev) {
+    return {
+      material: false,
+      reasons: ['初回の分析です（次回から変化を検出します）。'],
+      sentiment: null,
+      newTopics: [],
+      newRisks: [],
+      newArticleCount: 0,
+      baselineAt: null,
+    };
+  }
+
+  const known = new Set(prev.articleUrls);
+  const citesNewArticle = (urls: string[]) => urls.some((u) => !known.has(u));
+  const newTopics = next.topics
+    .filter((t) => citesNewArticle(t.urls) && !prev.topics.some((p) => isSameHeadline(p.title, t.title)))
+    .map((t) => t.title);
+  const newRisks = next.risks
+    .filter((r) => citesNewArticle(r.urls) && !prev.risks.some((p) => isSameHeadline(p.text, r.text)))
+    .map((r) => r.text);
+  const newArticleCount = next.articleUrls.filter((u) => !known.has(u)).length;
+
+  const reasons: string[] = [];
+  const sentiment = prev.sentiment && next.sentiment ? { from: prev.sentiment, to: next.sentiment } : null;
+  const shifted =
+    sentiment !== null &&
+    (sentiment.from.label !== sentiment.to.label ||
+      Math.abs(sentiment.to.score - sentiment.from.score) >= sentimentDelta());
+  if (sentiment && shifted) {
+    reasons.push(`センチメント ${formatSentiment(sentiment.from)} → ${formatSentiment(sentiment.to)}`);
+  }
+  if (newRisks.length > 0) reasons.push(`新たなネガティブ要因 ${newRisks.length} 件`);
+  if (newTopics.length > 0) reasons.push(`新しいトピック ${newTopics.length} 件`);
+  if (newArticleCount > 0) reasons.push(`新しい記事 ${newArticleCount} 件`);
+
+  return {
+    material: shifted || newRisks.length > 0,
+    reasons,
+    sentiment,
+    newTopics,
+    newRisks,
+    newArticleCount,
+    baselineAt: prev.generatedAt || null,
+  };
+}
+
+/**
+ * ===== 通知文 =====
+ */
+// 1 社あたりに載せる要因・トピックの数
+const MAX_ITEMS_PER_COMPANY = 3;
+
+/**
+ * その回のまとめ（Slack の mrkdwn）。変化のあった企業と、分析できなかった企業だけを載せる。
+ * 載せるものが無ければ null（always なら「変化なし」でも送る）。
+ */
+export function buildWatchSummary(
+  items: Array<{ entry: WatchlistEntry; status: WatchStatus }>,
+  always = false
+): string | null {
+  const changed = items.filter((i) => i.status.status === 'ok' && i.status.change?.material);
+  const troubled = items.filter((i) => i.status.status !== 'ok');
+  if (changed.length === 0 && troubled.length === 0 && !always) return null;
+
+  const lines = [`*ウォッチリストの定期分析*（${new Date().toISOString().slice(0, 10)}、${items.length} 社）`];
+  for (const { entry, status } of changed) {
+    const change = status.change!;
+    lines.push(`• *${entry.companyName}*: ${change.reasons.join(' / ')}`);
+    for (const risk of change.newRisks.slice(0, MAX_ITEMS_PER_COMPANY)) lines.push(`    ▾ ${risk}`);
+    for (const topic of change.newTopics.slice(0, MAX_ITEMS_PER_COMPANY)) lines.push(`    ◦ ${topic}`);
+  }
+  for (const { entry, status } of troubled) {
+    const what = status.status === 'failed' ? '分析に失敗しました' : '分析を見送りました';
+    lines.push(`• ${entry.companyName}: ${what}${status.error ? `（${status.error}）` : ''}`);
+  }
+  const unchanged = items.length - changed.length - troubled.length;
+  if (unchanged > 0) lines.push(`目立った変化なし: ${unchanged} 社`);
+  return lines.join('\n');
+}
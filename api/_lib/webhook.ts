@@ -0,0 +1,24 @@
+// api/_lib/webhook.ts
+// Slack 互換の Incoming Webhook への通知。{ text } を POST するだけなので、
+// Slack のほか Mattermost / Rocket.Chat など同じ形式を受け付けるサービスにも送れる。
+import { fetchWithTimeout } from './http.js';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// 通知先（WATCHLIST_WEBHOOK_URL。未設定なら null）
+export function watchlistWebhookUrl(): string | null {
+  const url = process.env.WATCHLIST_WEBHOOK_URL?.trim();
+  return url ? url : null;
+}
+
+export async function postWebhook(url: string, text: string): Promise<void> {
+  const res = await fetchWithTimeout(
+    url,
+    { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ text }) },
+    WEBHOOK_TIMEOUT_MS
+  );
+  if (!res.ok) {
+    const body = await res.text().catch(() => '');
+    throw new Error(`webhook error ${res.status}: ${body.slice(0, 200)}`);
+  }
+}
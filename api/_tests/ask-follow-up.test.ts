@@ -0,0 +1,114 @@
+// api/_tests/ask-follow-up.test.ts
+// ストリーミング中にクライアントが切断したら、上流（LLM）へのリクエストも止まること
+import { createServer, request, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import handler from '../ask-follow-up.js';
+
+const encoder = new TextEncoder();
+
+// OpenAI 互換の上流。最初の差分だけ返し、あとは abort されるまで止まったまま（done なら最後まで返す）
+function stubUpstream(mode: 'hang' | 'done') {
+  const signals: AbortSignal[] = [];
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (_url: string, init: RequestInit) => {
+      const signal = init.signal!;
+      signals.push(signal);
+      const body = new ReadableStream<Uint8Array>({
+        start(ctrl) {
+          ctrl.enqueue(encoder.encode('data: {"choices":[{"delta":{"content":"最初の"}}]}\n\n'));
+          if (mode === 'done') {
+            ctrl.enqueue(encoder.encode('data: [DONE]\n\n'));
+            ctrl.close();
+            return;
+          }
+          signal.addEventListener('abort', () => ctrl.error(new DOMException('aborted', 'AbortError')));
+        },
+      });
+      return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+    })
+  );
+  return signals;
+}
+
+// scripts/dev-api.ts と同じく、Vercel の req / res のうち使うものだけ足して呼ぶ
+async function serve(): Promise<{ server: Server; port: number }> {
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const vreq = req as any;
+    vreq.body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    vreq.query = {};
+    const vres = res as any;
+    vres.status = (code: number) => ((res.statusCode = code), vres);
+    vres.json = (body: unknown) => (res.end(JSON.stringify(body)), vres);
+    await handler(vreq, vres);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { server, port: (server.address() as AddressInfo).port };
+}
+
+function postFollowUp(port: number, onResponse: (res: IncomingMessage) => void) {
+  const req = request({
+    host: '127.0.0.1',
+    port,
+    path: '/api/ask-follow-up',
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+  });
+  req.on('response', onResponse);
+  req.on('error', () => {}); // 自分で切断したときのエラーは無視
+  req.end(JSON.stringify({ analysisReport: '# レポート', question: '要点は？', stream: true }));
+  return req;
+}
+
+describe('ask-follow-up streaming', () => {
+  let server: Server;
+  let port: number;
+
+  beforeEach(async () => {
+    vi.stubEnv('LLM_PROVIDER', 'openai');
+    vi.stubEnv('OPENAI_BASE_URL', 'http://llm.test/v1');
+    vi.stubEnv('OPENAI_MODEL', 'test-model');
+    // KV なし（レート制限・利用上限は見ない）
+    for (const name of ['KV_BACKEND', 'MARKETKV_KV_REST_API_URL', 'KV_REST_API_URL', 'UPSTASH_REDIS_REST_URL']) {
+      vi.stubEnv(name, '');
+    }
+    ({ server, port } = await serve());
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('aborts the upstream request when the client disconnects mid-stream', async () => {
+    const signals = stubUpstream('hang');
+    const req = postFollowUp(port, (res) => {
+      res.on('data', (chunk: Buffer) => {
+        if (chunk.toString().includes('event: delta')) req.destroy();
+      });
+    });
+
+    await vi.waitFor(() => {
+      expect(signals).toHaveLength(1);
+      expect(signals[0].aborted).toBe(true);
+    });
+  });
+
+  it('does not abort the upstream request when the stream completes', async () => {
+    const signals = stubUpstream('done');
+    const body = await new Promise<string>((resolve) => {
+      postFollowUp(port, (res) => {
+        let text = '';
+        res.on('data', (chunk: Buffer) => (text += chunk.toString()));
+        res.on('end', () => resolve(text));
+      });
+    });
+
+    expect(body).toContain('event: done');
+    expect(signals[0].aborted).toBe(false);
+  });
+});
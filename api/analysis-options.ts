@@ -0,0 +1,18 @@
+// api/analysis-options.ts
+// 分析リクエストで選べるもの: 観点（レンズ）・ニュースのエディション・出力言語。
+// analyze-company-news の lens / newsEditions / outputLanguage に渡す ID と表示名。
+// 例: /api/analysis-options?locale=en → { defaultLens, lenses: [{ id, label, description }], newsEditions, outputLanguages, ... }
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DEFAULT_LENS_ID, listLenses } from './_lib/lenses.js';
+import { listLocaleOptions } from './_lib/locales.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') return res.status(405).json({ error: 'GET method required.' });
+
+  // 観点の表示名だけ画面の言語に合わせる（未指定は日本語）
+  const locale = req.query.locale === 'en' ? 'en' : 'ja';
+
+  // デプロイごとにしか変わらないので、ブラウザに少しキャッシュさせる
+  res.setHeader('Cache-Control', 'public, max-age=300');
+  return res.status(200).json({ defaultLens: DEFAULT_LENS_ID, lenses: listLenses(locale), ...listLocaleOptions() });
+}
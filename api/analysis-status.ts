@@ -0,0 +1,36 @@
+// api/analysis-status.ts
+// 分析ジョブの進捗と結果
+// 例: /api/analysis-status?jobId=... → { jobId, status, stage, result?, error? }
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getJob, isValidJobId } from './_lib/jobs.js';
+import { enforceRateLimit } from './_lib/rate-limit.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') return res.status(405).json({ error: 'GET method required.' });
+  if (!(await enforceRateLimit(req, res, 'status'))) return;
+
+  const { jobId } = req.query;
+  if (typeof jobId !== 'string' || !isValidJobId(jobId)) {
+    return res.status(400).json({ error: 'jobId が必要です。' });
+  }
+
+  try {
+    const job = await getJob(jobId);
+    if (!job) return res.status(404).json({ error: 'ジョブが見つかりませんでした（期限切れの可能性があります）。' });
+
+    // ポーリングされるのでキャッシュさせない
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json({
+      jobId: job.id,
+      companyName: job.companyName,
+      status: job.status,
+      stage: job.stage,
+      updatedAt: job.updatedAt,
+      ...(job.result ? { result: { ...job.result, cached: false, ...(job.meta ? { meta: job.meta } : {}) } } : {}),
+      ...(job.error ? { error: job.error, errorStatus: job.errorStatus, requestId: job.meta?.requestId } : {}),
+    });
+  } catch (error: any) {
+    console.error('An error occurred in analysis-status handler:', error?.message ?? error);
+    return res.status(500).json({ error: error?.message ?? 'サーバーでエラーが発生しました。' });
+  }
+}
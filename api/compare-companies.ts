@@ -0,0 +1,124 @@
+// api/compare-companies.ts
+// 2〜5 社の比較レポート
+// POST { companyNames: ["トヨタ自動車", "本田技研工業"], newsEditions?, outputLanguage? }
+//  - newsEditions   : ニュースを探す言語・地域（locales.ts の ID、複数可。省略時は ["ja-jp"]）
+//  - outputLanguage : レポートの言語（"ja" | "en"。省略時は "ja"）
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { canonicalizeCompany } from './_lib/companies.js';
+import {
+  COMPARISON_TTL_SECONDS,
+  comparisonCacheKey,
+  gatherCompanyContext,
+  generateComparison,
+  MAX_COMPARE_COMPANIES,
+  MIN_COMPARE_COMPANIES,
+  type ComparisonOptions,
+  type ComparisonResult,
+} from './_lib/comparison.js';
+import { kvGetString, kvSetEx } from './_lib/kv.js';
+import { getLlmProvider, type LlmProvider } from './_lib/llm.js';
+import { llmErrorStatus } from './_lib/llm-resilience.js';
+import { DEFAULT_OUTPUT_LANGUAGE, isOutputLanguage, MAX_NEWS_EDITIONS, parseNewsEditions } from './_lib/locales.js';
+import { getNewsProviders } from './_lib/news-providers.js';
+import { enforceDailySpend, enforceRateLimit } from './_lib/rate-limit.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  console.log('=== [VER 1.3] compare-companies ===');
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'POST method required.' });
+  }
+  if (!(await enforceRateLimit(req, res, 'compare'))) return;
+
+  const {
+    companyNames,
+    newsEditions: rawEditions,
+    outputLanguage: rawLanguage,
+  } = (req.body ?? {}) as { companyNames?: unknown; newsEditions?: unknown; outputLanguage?: unknown };
+  if (!Array.isArray(companyNames)) {
+    return res.status(400).json({ error: 'companyNames（企業名の配列）が必要です。' });
+  }
+  const newsEditions = parseNewsEditions(rawEditions);
+  if (!newsEditions) {
+    return res.status(400).json({ error: `newsEditions は対応しているエディションの ID を 1〜${MAX_NEWS_EDITIONS} 個指定してください。` });
+  }
+  if (rawLanguage !== undefined && !isOutputLanguage(rawLanguage)) {
+    return res.status(400).json({ error: `outputLanguage の値が正しくありません（${String(rawLanguage)}）。` });
+  }
+  const options: ComparisonOptions = { outputLanguage: rawLanguage ?? DEFAULT_OUTPUT_LANGUAGE, newsEditions };
+
+  // 空欄と表記だけ違う重複は除き、正式名にそろえる
+  const names: string[] = [];
+  const seen = new Set<string>();
+  for (const n of companyNames) {
+    if (typeof n !== 'string' || n.trim() === '') continue;
+    const company = canonicalizeCompany(n);
+    if (!company.id) return res.status(400).json({ error: `企業を特定できない名前が含まれています（${n.trim()}）。` });
+    if (seen.has(company.id)) continue;
+    seen.add(company.id);
+    names.push(company.name);
+  }
+  if (names.length < MIN_COMPARE_COMPANIES || names.length > MAX_COMPARE_COMPANIES) {
+    return res
+      .status(400)
+      .json({ error: `比較する企業を${MIN_COMPARE_COMPANIES}〜${MAX_COMPARE_COMPANIES}社指定してください。` });
+  }
+
+  const newsProviders = getNewsProviders();
+  if (newsProviders.length === 0) {
+    return res.status(500).json({ error: 'ニュースの取得元が設定されていません（GNEWS_API_KEY / NEWS_RSS_FEEDS）。' });
+  }
+
+  let llm: LlmProvider;
+  try {
+    llm = getLlmProvider();
+  } catch (e: any) {
+    return res.status(500).json({ error: String(e?.message ?? e) });
+  }
+
+  const cacheKey = comparisonCacheKey(names, options);
+
+  try {
+    // 1) キャッシュ（失敗しても本処理は続行）
+    try {
+      const cached = await kvGetString(cacheKey);
+      if (typeof cached === 'string' && cached.trim()) {
+        return res.status(200).json({ ...(JSON.parse(cached) as ComparisonResult), cached: true });
+      }
+    } catch (e: any) {
+      console.warn(`[WARN] KV get skipped: ${String(e?.message ?? e)}`);
+    }
+
+    if (!(await enforceDailySpend(res, [llm.name]))) return;
+
+    // 2) 企業ごとの材料（キャッシュ済みレポート or ニュース）
+    const contexts = await Promise.all(names.map((n) => gatherCompanyContext(n, newsProviders, options)));
+    if (contexts.every((c) => c.origin === 'none')) {
+      return res.status(404).json({ error: 'どの企業についても関連ニュースが見つかりませんでした。' });
+    }
+
+    // 3) LLM
+    const { report, comparison, generated } = await generateComparison(llm, contexts, options.outputLanguage);
+    console.log('[DEBUG] LLM picked:', { provider: generated.provider, version: generated.version, model: generated.model });
+
+    const result: ComparisonResult = {
+      companies: contexts.map((c) => ({ companyName: c.companyName, origin: c.origin, sources: c.sources })),
+      report,
+      comparison,
+      generatedAt: new Date().toISOString(),
+      ...options,
+    };
+
+    // 4) キャッシュ保存（失敗しても本処理は成功扱い）
+    try {
+      await kvSetEx(cacheKey, JSON.stringify(result), COMPARISON_TTL_SECONDS);
+    } catch (e: any) {
+      console.warn(`[WARN] KV set skipped: ${String(e?.message ?? e)}`);
+    }
+
+    return res.status(200).json({ ...result, cached: false });
+  } catch (error: any) {
+    console.error('An error occurred in compare-companies handler:', error?.message ?? error);
+    return res.status(llmErrorStatus(error)).json({ error: error?.message ?? 'サーバーでエラーが発生しました。' });
+  }
+}
@@ -0,0 +1,80 @@
+// api/fetch-stock-candles.ts
+// 日足の株価履歴
+// 例: /api/fetch-stock-candles?symbol=7203.T&range=3M
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { finnhubGet, isValidSymbol } from './_lib/finnhub.js';
+import { enforceDailySpend, enforceRateLimit } from './_lib/rate-limit.js';
+
+type CandleRange = '1M' | '3M' | '1Y';
+
+const RANGE_DAYS: Record<CandleRange, number> = {
+  '1M': 31,
+  '3M': 92,
+  '1Y': 366,
+};
+
+// Finnhub /stock/candle のレスポンス（列ごとの配列）
+type FinnhubCandles = {
+  s: 'ok' | 'no_data';
+  t?: number[];
+  o?: number[];
+  h?: number[];
+  l?: number[];
+  c?: number[];
+  v?: number[];
+};
+
+function isCandleRange(v: unknown): v is CandleRange {
+  return typeof v === 'string' && v in RANGE_DAYS;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!(await enforceRateLimit(req, res, 'market'))) return;
+
+  const { symbol, range = '3M' } = req.query;
+  const apiKey = process.env.FINNHUB_API_KEY;
+
+  if (typeof symbol !== 'string' || !symbol.trim()) {
+    return res.status(400).json({ error: '証券コードが必要です。' });
+  }
+  if (!isValidSymbol(symbol.trim())) {
+    return res.status(400).json({ error: '証券コードの形式が正しくありません。' });
+  }
+  if (!isCandleRange(range)) {
+    return res.status(400).json({ error: 'range は 1M / 3M / 1Y のいずれかを指定してください。' });
+  }
+  if (!apiKey) {
+    return res.status(500).json({ error: 'Finnhub APIキーがサーバーに設定されていません。' });
+  }
+  if (!(await enforceDailySpend(res, ['finnhub']))) return;
+
+  try {
+    const to = Math.floor(Date.now() / 1000);
+    const from = to - RANGE_DAYS[range] * 86400;
+
+    const data = await finnhubGet<FinnhubCandles>(
+      '/stock/candle',
+      { symbol: symbol.trim(), resolution: 'D', from, to },
+      apiKey
+    );
+
+    if (data?.s !== 'ok' || !Array.isArray(data.t) || data.t.length === 0) {
+      return res.status(404).json({ error: '株価履歴が見つかりませんでした。' });
+    }
+
+    // 行形式に組み替えて返す
+    const candles = data.t.map((t, i) => ({
+      t,
+      o: data.o?.[i] ?? null,
+      h: data.h?.[i] ?? null,
+      l: data.l?.[i] ?? null,
+      c: data.c?.[i] ?? null,
+      v: data.v?.[i] ?? null,
+    }));
+
+    return res.status(200).json({ symbol: symbol.trim(), range, candles });
+  } catch (error: any) {
+    console.error('An error occurred in fetch-stock-candles handler:', error);
+    return res.status(500).json({ error: error.message });
+  }
+}
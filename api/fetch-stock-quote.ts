@@ -1,36 +1,55 @@
-// api/fetch-stock-quote.ts
-import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // 1. フロントエンドから企業の証券コード（symbol）を受け取る
-  // 例: /api/fetch-stock-quote?symbol=AAPL
-  const { symbol } = req.query;
-
-  // 2. Vercelの環境変数からAPIキーを安全に読み込む
-  const apiKey = process.env.FINNHUB_API_KEY;
-
-  if (typeof symbol !== 'string' || !symbol) {
-    return res.status(400).json({ error: '証券コードが必要です。' });
-  }
-  if (!apiKey) {
-    return res.status(500).json({ error: 'Finnhub APIキーがサーバーに設定されていません。' });
-  }
-
-  try {
-    // 3. FinnhubのAPIを呼び出す
-    const url = `https://finnhub.io/api/v1/quote?symbol=${symbol}&token=${apiKey}`;
-    const apiRes = await fetch(url);
-
-    if (!apiRes.ok) {
-      throw new Error(`Finnhub API エラー: ${apiRes.status}`);
-    }
-    const data = await apiRes.json();
-    
-    // 4. 取得した株価データをフロントエンドに返す
-    res.status(200).json(data);
-
-  } catch (error: any) {
-    console.error('An error occurred in fetch-stock-quote handler:', error);
-    res.status(500).json({ error: error.message });
-  }
-}
\ No newline at end of file
+// api/fetch-stock-quote.ts
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { finnhubGet, isValidSymbol } from './_lib/finnhub.js';
+import { enforceDailySpend, enforceRateLimit } from './_lib/rate-limit.js';
+
+// Finnhub /quote のレスポンス
+type FinnhubQuote = {
+  c: number; // 現在値
+  d: number | null; // 前日比
+  dp: number | null; // 前日比(%)
+  h: number; // 高値
+  l: number; // 安値
+  o: number; // 始値
+  pc: number; // 前日終値
+  t: number; // UNIX秒
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!(await enforceRateLimit(req, res, 'market'))) return;
+
+  // 1. フロントエンドから企業の証券コード（symbol）を受け取る
+  // 例: /api/fetch-stock-quote?symbol=AAPL や ?symbol=7203.T
+  const { symbol } = req.query;
+
+  // 2. Vercelの環境変数からAPIキーを安全に読み込む
+  const apiKey = process.env.FINNHUB_API_KEY;
+
+  if (typeof symbol !== 'string' || !symbol.trim()) {
+    return res.status(400).json({ error: '証券コードが必要です。' });
+  }
+  if (!isValidSymbol(symbol.trim())) {
+    return res.status(400).json({ error: '証券コードの形式が正しくありません。' });
+  }
+  if (!apiKey) {
+    return res.status(500).json({ error: 'Finnhub APIキーがサーバーに設定されていません。' });
+  }
+  if (!(await enforceDailySpend(res, ['finnhub']))) return;
+
+  try {
+    // 3. FinnhubのAPIを呼び出す（symbol は URL エンコードされる）
+    const data = await finnhubGet<FinnhubQuote>('/quote', { symbol: symbol.trim() }, apiKey);
+
+    // 未知の銘柄でも 200 + 全部 0 が返ってくる
+    if (!data || (!data.c && !data.t)) {
+      return res.status(404).json({ error: '株価データが見つかりませんでした。' });
+    }
+
+    // 4. 取得した株価データをフロントエンドに返す
+    res.status(200).json({ ...data, symbol: symbol.trim() });
+
+  } catch (error: any) {
+    console.error('An error occurred in fetch-stock-quote handler:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,47 @@
+// api/report-history.ts
+// 分析レポートの版の一覧と取得
+// 例: /api/report-history?companyName=トヨタ自動車          → { versions: [...] }（新しい順）
+//     /api/report-history?companyName=トヨタ自動車&id=...   → { version: {...} }
+// 一覧は組み合わせごと（lens / outputLanguage / newsEditions / timeWindow。未指定の項目は既定）
+//     /api/report-history?companyName=トヨタ自動車&lens=risk&newsEditions=ja-jp,en-us&timeWindow=7d
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { normalizeCompanyKey } from './_lib/analysis.js';
+import { getReportVersion, isValidVersionId, listReportVersions } from './_lib/history.js';
+import { hasKvStore } from './_lib/kv.js';
+import { enforceRateLimit } from './_lib/rate-limit.js';
+import { parseReportVariantQuery } from './_lib/report-variant.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') return res.status(405).json({ error: 'GET method required.' });
+  if (!(await enforceRateLimit(req, res, 'history'))) return;
+
+  const { companyName, id } = req.query;
+  if (typeof companyName !== 'string' || companyName.trim() === '') {
+    return res.status(400).json({ error: 'companyName is required.' });
+  }
+  if (id !== undefined && (typeof id !== 'string' || !isValidVersionId(id))) {
+    return res.status(400).json({ error: 'id の形式が正しくありません。' });
+  }
+  const variant = parseReportVariantQuery(req.query);
+  if ('error' in variant) return res.status(400).json({ error: variant.error });
+  if (!hasKvStore()) {
+    return res.status(503).json({ error: '履歴の保存先（KV）が設定されていません。' });
+  }
+
+  const companyKey = normalizeCompanyKey(companyName);
+  if (!companyKey) return res.status(400).json({ error: 'companyName から企業を特定できません（法人格だけの名前など）。' });
+
+  try {
+    if (typeof id === 'string') {
+      const version = await getReportVersion(companyKey, id);
+      if (!version) return res.status(404).json({ error: '指定された版が見つかりませんでした。' });
+      return res.status(200).json({ version });
+    }
+
+    const versions = await listReportVersions(companyKey, variant);
+    return res.status(200).json({ versions });
+  } catch (error: any) {
+    console.error('An error occurred in report-history handler:', error?.message ?? error);
+    return res.status(500).json({ error: error?.message ?? 'サーバーでエラーが発生しました。' });
+  }
+}
@@ -0,0 +1,65 @@
+// api/search-symbol.ts
+// 企業名 → ティッカー解決
+// 例: /api/search-symbol?q=トヨタ自動車 → { best: { symbol: "7203.T", ... }, candidates: [...] }
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { findCompanyByAlias } from './_lib/companies.js';
+import { finnhubGet, isValidSymbol } from './_lib/finnhub.js';
+import { enforceRateLimit, isOverDailyLimit } from './_lib/rate-limit.js';
+
+type SymbolCandidate = {
+  symbol: string;
+  name: string;
+  source: 'alias' | 'code' | 'finnhub';
+};
+
+type FinnhubSearchResponse = {
+  count?: number;
+  result?: Array<{ symbol?: string; displaySymbol?: string; description?: string; type?: string }>;
+};
+
+function fromSecuritiesCode(q: string): SymbolCandidate | null {
+  // 東証の証券コード（4桁、新形式は英字混じり 例: 130A）
+  const code = q.replace(/\.t$/i, '');
+  if (!/^\d{3}[0-9A-Z]$/i.test(code)) return null;
+  return { symbol: `${code.toUpperCase()}.T`, name: code.toUpperCase(), source: 'code' };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') return res.status(405).json({ error: 'GET method required.' });
+  if (!(await enforceRateLimit(req, res, 'market'))) return;
+
+  const { q } = req.query;
+  if (typeof q !== 'string' || q.trim() === '') {
+    return res.status(400).json({ error: '検索語が必要です。' });
+  }
+  const query = q.trim().slice(0, 100);
+
+  const candidates: SymbolCandidate[] = [];
+
+  // 1) ローカル別名テーブル
+  const alias = findCompanyByAlias(query);
+  if (alias) candidates.push({ symbol: alias.symbol, name: alias.name, source: 'alias' });
+
+  // 2) 証券コード直接入力
+  const byCode = fromSecuritiesCode(query);
+  if (byCode && !candidates.some((c) => c.symbol === byCode.symbol)) candidates.push(byCode);
+
+  // 3) Finnhub symbol search（キーが無い/失敗/今日の上限に達していても 1,2 の結果は返す）
+  const apiKey = process.env.FINNHUB_API_KEY;
+  if (apiKey && candidates.length === 0 && !(await isOverDailyLimit('finnhub'))) {
+    try {
+      const data = await finnhubGet<FinnhubSearchResponse>('/search', { q: query }, apiKey);
+      for (const r of Array.isArray(data?.result) ? data.result : []) {
+        const symbol = r?.symbol ?? r?.displaySymbol;
+        if (typeof symbol !== 'string' || !isValidSymbol(symbol)) continue;
+        if (candidates.some((c) => c.symbol === symbol)) continue;
+        candidates.push({ symbol, name: r?.description ?? symbol, source: 'finnhub' });
+        if (candidates.length >= 5) break;
+      }
+    } catch (e: any) {
+      console.warn(`[WARN] Finnhub search skipped: ${String(e?.message ?? e)}`);
+    }
+  }
+
+  return res.status(200).json({ query, best: candidates[0] ?? null, candidates });
+}
@@ -0,0 +1,21 @@
+// api/suggest-companies.ts
+// 企業名の入力補完（ローカル別名テーブルのみ。外部 API は呼ばない）
+// 例: /api/suggest-companies?q=とよ → { query, suggestions: [{ id, name, symbol, matched }] }
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { suggestCompanies } from './_lib/companies.js';
+import { enforceRateLimit } from './_lib/rate-limit.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') return res.status(405).json({ error: 'GET method required.' });
+  if (!(await enforceRateLimit(req, res, 'suggest'))) return;
+
+  const { q } = req.query;
+  if (typeof q !== 'string') {
+    return res.status(400).json({ error: '検索語が必要です。' });
+  }
+  const query = q.trim().slice(0, 100);
+
+  // 同じ入力には同じ結果なので、ブラウザに少しキャッシュさせる
+  res.setHeader('Cache-Control', 'public, max-age=300');
+  return res.status(200).json({ query, suggestions: suggestCompanies(query) });
+}
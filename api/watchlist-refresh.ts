@@ -0,0 +1,224 @@
+// api/watchlist-refresh.ts
+// ウォッチリストの定期分析（.github/workflows/watchlist-refresh.yml から毎朝呼ぶ）
+// POST /api/watchlist-refresh?runId=...   Authorization: Bearer <CRON_SECRET>
+//  - runId ごとに「まだ分析していない企業」を、時間の予算内で順に再分析する（1 回の呼び出しで全社終わらなくてよい）
+//  - 前回の定期分析と比べて変化を検出し、残りが 0 になった呼び出しで WATCHLIST_WEBHOOK_URL にまとめて通知する（1 回だけ）
+// レスポンス: { runId, processed: [{ companyName, status, material, error? }], remaining, notified }
+//  - 409 … 同じ処理が別の呼び出しで実行中（少し待って呼び直す）
+import { createHash, timingSafeEqual } from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { reportLockKey, runAnalysis } from './_lib/analysis.js';
+import { JOB_LOCK_TTL_SECONDS } from './_lib/jobs.js';
+import { acquireLock, hasKvStore, releaseLock } from './_lib/kv.js';
+import { getLlmProvider, type LlmProvider } from './_lib/llm.js';
+import { getNewsProviders, type NewsProvider } from './_lib/news-providers.js';
+import { isOverDailyLimit } from './_lib/rate-limit.js';
+import { createTrace, logTraceSummary, requestIdOf, type Trace } from './_lib/trace.js';
+import {
+  buildWatchSummary,
+  cachedSnapshot,
+  claimRunNotification,
+  detectChanges,
+  getWatchlist,
+  getWatchStatuses,
+  releaseRunNotification,
+  saveWatchStatus,
+  snapshotOf,
+  type ReportSnapshot,
+  type WatchlistEntry,
+  type WatchStatus,
+} from './_lib/watchlist.js';
+import { postWebhook, watchlistWebhookUrl } from './_lib/webhook.js';
+
+const REFRESH_LOCK_KEY = 'lock:watchlist:refresh';
+
+// 新しい企業の分析を始めるのはこの秒数まで（始めた分析は最後まで続ける）
+const DEFAULT_TIME_BUDGET_SECONDS = 30;
+
+function timeBudgetSeconds(): number {
+  const n = Number(process.env.WATCHLIST_TIME_BUDGET_SECONDS);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_TIME_BUDGET_SECONDS;
+}
+
+// 長さの違いで一致の度合いが漏れないよう、ハッシュ同士を比べる
+function isAuthorized(req: VercelRequest, secret: string): boolean {
+  const header = req.headers.authorization;
+  const token = (Array.isArray(header) ? header[0] : header ?? '').replace(/^Bearer\s+/i, '');
+  const digest = (s: string) => createHash('sha256').update(s).digest();
+  return token !== '' && timingSafeEqual(digest(token), digest(secret));
+}
+
+function isValidRunId(id: string): boolean {
+  return /^[A-Za-z0-9_-]{1,64}$/.test(id);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  console.log('=== [VER 1.0] watchlist-refresh ===');
+
+  if (req.method !== 'POST') return res.status(405).json({ error: 'POST method required.' });
+
+  const secret = process.env.CRON_SECRET?.trim();
+  if (!secret) return res.status(503).json({ error: 'CRON_SECRET が設定されていません。' });
+  if (!isAuthorized(req, secret)) return res.status(401).json({ error: '認証に失敗しました。' });
+  if (!hasKvStore()) {
+    return res.status(503).json({ error: 'ウォッチリストの保存先（KV）が設定されていません。' });
+  }
+
+  // 省略時は UTC の日付（1 日 1 回）
+  const runId = typeof req.query.runId === 'string' && req.query.runId ? req.query.runId : new Date().toISOString().slice(0, 10);
+  if (!isValidRunId(runId)) return res.status(400).json({ error: 'runId の形式が正しくありません。' });
+
+  const newsProviders = getNewsProviders();
+  if (newsProviders.length === 0) {
+    return res.status(500).json({ error: 'ニュースの取得元が設定されていません（GNEWS_API_KEY / NEWS_RSS_FEEDS）。' });
+  }
+
+  let llm: LlmProvider;
+  try {
+    llm = getLlmProvider();
+  } catch (e: any) {
+    return res.status(500).json({ error: String(e?.message ?? e) });
+  }
+
+  const trace = createTrace('watchlist-refresh', requestIdOf(req));
+  res.setHeader('X-Request-Id', trace.requestId);
+
+  // 同じ回の呼び出しが重なって同じ企業を二度分析しないように
+  const budgetSeconds = timeBudgetSeconds();
+  const lockVal = await acquireLock(REFRESH_LOCK_KEY, Math.ceil(budgetSeconds) + JOB_LOCK_TTL_SECONDS);
+  if (!lockVal) {
+    return res.status(409).json({ error: '別の定期分析が実行中です。少し待って再実行してください。' });
+  }
+
+  try {
+    const entries = await getWatchlist();
+    const statuses = await getWatchStatuses(entries.map((e) => e.companyKey));
+    const pending = entries.filter((e) => statuses[e.companyKey]?.runId !== runId);
+    const deadline = Date.now() + budgetSeconds * 1000;
+    const processed: Array<{ companyName: string; status: WatchStatus['status']; material: boolean; error?: string }> = [];
+
+    for (const entry of pending) {
+      if (processed.length > 0 && Date.now() >= deadline) break;
+      // 今日の上限に達したら残りは見送り扱いにして、この回を締める（通知で分かるように）
+      const status = (await isOverDailyLimit(llm.name))
+        ? unfinishedStatus(runId, 'skipped', '本日の外部 API の利用上限に達したため見送りました。', statuses[entry.companyKey]?.snapshot ?? null)
+        : await refreshEntry(entry, statuses[entry.companyKey] ?? null, runId, { llm, newsProviders, trace });
+      statuses[entry.companyKey] = status;
+      try {
+        await saveWatchStatus(entry.companyKey, status);
+      } catch (e: any) {
+        trace.log('warn', 'watch status save skipped', { companyKey: entry.companyKey, error: String(e?.message ?? e) });
+      }
+      processed.push({
+        companyName: entry.companyName,
+        status: status.status,
+        material: status.change?.material ?? false,
+        ...(status.error ? { error: status.error } : {}),
+      });
+    }
+
+    const remaining = pending.length - processed.length;
+    const notified = remaining === 0 && entries.length > 0 ? await notifyRun(runId, entries, statuses, trace) : false;
+    logTraceSummary(trace, { runId, processed: processed.length, remaining, notified });
+    return res.status(200).json({ runId, processed, remaining, notified });
+  } catch (error: any) {
+    trace.log('error', 'watchlist refresh failed', { runId, error: error?.message ?? String(error) });
+    return res.status(500).json({ error: error?.message ?? String(error), requestId: trace.requestId });
+  } finally {
+    try {
+      await releaseLock(REFRESH_LOCK_KEY, lockVal);
+    } catch (e: any) {
+      trace.log('warn', 'lock release skipped', { error: String(e?.message ?? e) });
+    }
+  }
+}
+
+// 分析できなかったときは、比較の基準（前回のスナップショット）を次回に引き継ぐ
+function unfinishedStatus(
+  runId: string,
+  status: 'failed' | 'skipped',
+  error: string,
+  baseline: ReportSnapshot | null
+): WatchStatus {
+  return { runId, checkedAt: new Date().toISOString(), status, error, ...(baseline ? { snapshot: baseline } : {}) };
+}
+
+/**
+ * 1 社を既定の組み合わせで再分析し、前回と比べる（キャッシュは見ずに必ず生成し直す）
+ */
+async function refreshEntry(
+  entry: WatchlistEntry,
+  previous: WatchStatus | null,
+  runId: string,
+  opts: { llm: LlmProvider; newsProviders: NewsProvider[]; trace: Trace }
+): Promise<WatchStatus> {
+  const { companyKey, companyName } = entry;
+  const { trace } = opts;
+
+  let baseline = previous?.snapshot ?? null;
+  if (!baseline) {
+    try {
+      baseline = await cachedSnapshot(companyKey);
+    } catch (e: any) {
+      trace.log('warn', 'baseline read skipped', { companyKey, error: String(e?.message ?? e) });
+    }
+  }
+
+  // 画面からの分析と同じロックを使う（実行中ならその結果がキャッシュに入るので、今回は見送る）
+  const lockKey = reportLockKey(companyKey);
+  const lockVal = await acquireLock(lockKey, JOB_LOCK_TTL_SECONDS);
+  if (!lockVal) {
+    return unfinishedStatus(runId, 'skipped', '画面からの分析が実行中だったため見送りました。', baseline);
+  }
+
+  try {
+    const outcome = await runAnalysis({ ...opts, companyName, companyKey });
+    if (!outcome.ok) return unfinishedStatus(runId, 'failed', outcome.error, baseline);
+    const snapshot = snapshotOf(outcome.result);
+    const change = detectChanges(baseline, snapshot);
+    trace.log('info', 'watchlist company refreshed', { companyKey, material: change.material, reasons: change.reasons });
+    return { runId, checkedAt: new Date().toISOString(), status: 'ok', change, snapshot };
+  } catch (error: any) {
+    trace.log('error', 'watchlist company failed', { companyKey, error: error?.message ?? String(error) });
+    return unfinishedStatus(runId, 'failed', error?.message ?? String(error), baseline);
+  } finally {
+    try {
+      await releaseLock(lockKey, lockVal);
+    } catch (e: any) {
+      trace.log('warn', 'lock release skipped', { companyKey, error: String(e?.message ?? e) });
+    }
+  }
+}
+
+/**
+ * その回の結果をまとめて通知する（載せるものが無い / 通知先が未設定 / 送信済みなら送らない）
+ * WATCHLIST_NOTIFY_ALWAYS=1 なら変化が無くても送る。
+ */
+async function notifyRun(
+  runId: string,
+  entries: WatchlistEntry[],
+  statuses: Record<string, WatchStatus>,
+  trace: Trace
+): Promise<boolean> {
+  const items = entries
+    .map((entry) => ({ entry, status: statuses[entry.companyKey] }))
+    .filter((i) => i.status?.runId === runId);
+  const text = buildWatchSummary(items, process.env.WATCHLIST_NOTIFY_ALWAYS === '1');
+  if (!text) return false;
+
+  const url = watchlistWebhookUrl();
+  if (!url) {
+    trace.log('warn', 'webhook skipped (WATCHLIST_WEBHOOK_URL is not set)', { runId });
+    return false;
+  }
+  if (!(await claimRunNotification(runId))) return false;
+
+  try {
+    await trace.span('webhook', () => postWebhook(url, text));
+    return true;
+  } catch (e: any) {
+    trace.log('warn', 'webhook failed', { runId, error: String(e?.message ?? e) });
+    await releaseRunNotification(runId).catch(() => undefined);
+    return false;
+  }
+}
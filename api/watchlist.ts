@@ -0,0 +1,69 @@
+// api/watchlist.ts
+// ウォッチリストの一覧・追加・削除（毎朝の再分析と通知は watchlist-refresh.ts）
+// 例: GET    /api/watchlist                          → { entries: [...], maxEntries, webhookConfigured }
+//     POST   /api/watchlist { companyName }          → { entries }（登録済みならそのまま）
+//     DELETE /api/watchlist?companyName=トヨタ自動車 → { entries }
+// entries[].status は直近の定期分析の結果（まだ一度も分析していなければ null）。
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { canonicalizeCompany } from './_lib/companies.js';
+import { hasKvStore } from './_lib/kv.js';
+import { enforceRateLimit } from './_lib/rate-limit.js';
+import {
+  addToWatchlist,
+  getWatchlist,
+  getWatchStatuses,
+  MAX_WATCHLIST_ENTRIES,
+  removeFromWatchlist,
+  type WatchlistEntry,
+  type WatchlistUpdate,
+} from './_lib/watchlist.js';
+import { watchlistWebhookUrl } from './_lib/webhook.js';
+
+// 画面に返す形（比較用のスナップショットは返さない）
+async function withStatuses(entries: WatchlistEntry[]) {
+  const statuses = await getWatchStatuses(entries.map((e) => e.companyKey));
+  return entries.map((entry) => {
+    const status = statuses[entry.companyKey];
+    if (!status) return { ...entry, status: null };
+    const { snapshot: _snapshot, ...rest } = status;
+    return { ...entry, status: rest };
+  });
+}
+
+async function sendUpdate(res: VercelResponse, result: WatchlistUpdate) {
+  if (!result.ok) return res.status(result.status).json({ error: result.error });
+  return res.status(200).json({ entries: await withStatuses(result.entries) });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'GET, POST or DELETE method required.' });
+  }
+  if (!(await enforceRateLimit(req, res, 'watchlist'))) return;
+  if (!hasKvStore()) {
+    return res.status(503).json({ error: 'ウォッチリストの保存先（KV）が設定されていません。' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({
+        entries: await withStatuses(await getWatchlist()),
+        maxEntries: MAX_WATCHLIST_ENTRIES,
+        webhookConfigured: watchlistWebhookUrl() !== null,
+      });
+    }
+
+    const companyName = req.method === 'POST' ? (req.body ?? {}).companyName : req.query.companyName;
+    if (typeof companyName !== 'string' || companyName.trim() === '') {
+      return res.status(400).json({ error: 'companyName is required.' });
+    }
+    if (!canonicalizeCompany(companyName).id) {
+      return res.status(400).json({ error: 'companyName から企業を特定できません（法人格だけの名前など）。' });
+    }
+    if (req.method === 'POST') return await sendUpdate(res, await addToWatchlist(companyName));
+    return await sendUpdate(res, await removeFromWatchlist(companyName));
+  } catch (error: any) {
+    console.error('An error occurred in watchlist handler:', error?.message ?? error);
+    return res.status(500).json({ error: error?.message ?? 'サーバーでエラーが発生しました。' });
+  }
+}
@@ -0,0 +1,218 @@
+// scripts/dev-api.ts
+// ローカル開発用の API サーバー。api/*.ts のハンドラを Vercel と同じ形の req / res で呼び出す。
+//   npm run dev:api            … 実際の API を使う（.env.local のキーが必要）
+//   npm run dev:api:replay     … fixtures/ の記録を返す（ネットワーク・API キー不要）
+//   npm run dev:api:record     … 実際の API を呼び、レスポンスを fixtures/ に記録する
+// Vite（npm run dev）の /api プロキシ先と、開発時の API_BASE_URL（http://localhost:3001）に合わせている。
+import { existsSync, readdirSync } from 'fs';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { getKvConfig, getKvStore } from '../api/_lib/storage.js';
+import { installFixtureFetch, type FixtureMode } from './fixtures.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const API_DIR = path.join(ROOT, 'api');
+const FIXTURES_DIR = path.join(ROOT, 'fixtures');
+const PORT = Number(process.env.PORT ?? 3001);
+const MAX_BODY_BYTES = 1024 * 1024;
+
+type Handler = (req: any, res: any) => unknown;
+
+/**
+ * ===== 起動オプション =====
+ */
+function parseFixtureMode(argv: string[]): FixtureMode | null {
+  const arg = argv.find((a) => a.startsWith('--fixtures'));
+  if (!arg) return null;
+  const mode = arg.split('=')[1] ?? 'replay';
+  if (mode !== 'replay' && mode !== 'record') {
+    throw new Error(`--fixtures は replay か record を指定してください（${mode}）`);
+  }
+  return mode;
+}
+
+function loadEnv(): void {
+  for (const file of ['.env.local', '.env']) {
+    const p = path.join(ROOT, file);
+    if (existsSync(p)) {
+      process.loadEnvFile(p);
+      console.log(`[dev-api] loaded ${file}`);
+    }
+  }
+}
+
+/**
+ * ===== Vercel 互換の req / res =====
+ * @vercel/node の VercelRequest / VercelResponse のうち、api/ で使っているものだけ用意する
+ */
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error('request body too large');
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function parseQuery(url: URL): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const key of new Set(url.searchParams.keys())) {
+    const values = url.searchParams.getAll(key);
+    query[key] = values.length > 1 ? values : values[0];
+  }
+  return query;
+}
+
+function parseBody(raw: string, contentType: string): unknown {
+  if (!raw) return undefined;
+  if (contentType.includes('application/json')) return JSON.parse(raw);
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(raw));
+  }
+  return raw;
+}
+
+function decorateResponse(res: ServerResponse): void {
+  const r = res as any;
+  r.status = (code: number) => {
+    res.statusCode = code;
+    return r;
+  };
+  r.json = (body: unknown) => {
+    if (!res.getHeader('Content-Type')) res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify(body));
+    return r;
+  };
+  r.send = (body: unknown) => {
+    if (body !== null && typeof body === 'object' && !Buffer.isBuffer(body)) return r.json(body);
+    if (!res.getHeader('Content-Type')) res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.end(body === undefined ? undefined : Buffer.isBuffer(body) ? body : String(body));
+    return r;
+  };
+}
+
+// 開発時はフロント（localhost:5173）から直接呼ばれるので CORS を開ける
+function setCorsHeaders(res: ServerResponse): void {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key, X-Request-Id');
+  res.setHeader(
+    'Access-Control-Expose-Headers',
+    'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, X-Request-Id'
+  );
+}
+
+/**
+ * waitUntil（@vercel/functions）はリクエストコンテキストが無いと何もしないので、
+ * ローカルでは Promise をそのまま走らせて失敗だけ記録する
+ */
+function installWaitUntil(): void {
+  const context = {
+    waitUntil: (p: Promise<unknown>) => {
+      p.catch((e: any) => console.error('[dev-api] waitUntil task failed:', e?.message ?? e));
+    },
+  };
+  (globalThis as any)[Symbol.for('@vercel/request-context')] = { get: () => context };
+}
+
+/**
+ * ===== ルーティング =====
+ * /api/<name> → api/<name>.ts の default export（"_" 始まりのファイルは関数にしない Vercel の規則に合わせる）
+ */
+function listRoutes(): Set<string> {
+  return new Set(
+    readdirSync(API_DIR)
+      .filter((f) => f.endsWith('.ts') && !f.startsWith('_'))
+      .map((f) => f.replace(/\.ts$/, ''))
+  );
+}
+
+async function loadHandler(name: string): Promise<Handler> {
+  const mod = await import(pathToFileURL(path.join(API_DIR, `${name}.ts`)).href);
+  if (typeof mod.default !== 'function') throw new Error(`api/${name}.ts has no default export`);
+  return mod.default as Handler;
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse, routes: Set<string>): Promise<void> {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+  setCorsHeaders(res);
+  decorateResponse(res);
+  const r = res as any;
+
+  if (req.method === 'OPTIONS') {
+    res.statusCode = 204;
+    res.end();
+    return;
+  }
+
+  const match = /^\/api\/([A-Za-z0-9-]+)\/?$/.exec(url.pathname);
+  if (!match || !routes.has(match[1])) {
+    r.status(404).json({ error: `Not found: ${url.pathname}` });
+    return;
+  }
+
+  const raw = await readBody(req);
+  const vreq = req as any;
+  vreq.query = parseQuery(url);
+  vreq.cookies = {};
+  try {
+    vreq.body = parseBody(raw, String(req.headers['content-type'] ?? ''));
+  } catch {
+    r.status(400).json({ error: 'Invalid JSON body.' });
+    return;
+  }
+
+  const handler = await loadHandler(match[1]);
+  await handler(vreq, r);
+}
+
+async function main(): Promise<void> {
+  loadEnv();
+
+  const fixtureMode = parseFixtureMode(process.argv.slice(2));
+  if (fixtureMode) {
+    if (fixtureMode === 'replay') {
+      // 記録済みレスポンスを返すだけなので、キーは形だけあればよい
+      process.env.GEMINI_API_KEY ||= 'fixture';
+      process.env.GNEWS_API_KEY ||= 'fixture';
+      process.env.FINNHUB_API_KEY ||= 'fixture';
+    }
+    const kvHost = getKvConfig() ? new URL(getKvConfig()!.url).host : null;
+    installFixtureFetch({
+      mode: fixtureMode,
+      dir: FIXTURES_DIR,
+      passThrough: (u) => ['localhost', '127.0.0.1'].includes(u.hostname) || u.host === kvHost,
+    });
+  }
+
+  // Upstash が無ければプロセス内の KV で動かす（キャッシュ・ロック・ジョブ・履歴もそのまま試せる）
+  if (!process.env.KV_BACKEND && !getKvConfig()) process.env.KV_BACKEND = 'memory';
+  console.log(`[dev-api] KV backend: ${getKvStore()?.backend ?? 'none'}`);
+
+  installWaitUntil();
+  const routes = listRoutes();
+
+  const server = createServer((req, res) => {
+    const started = Date.now();
+    res.on('finish', () => {
+      console.log(`[dev-api] ${req.method} ${req.url} → ${res.statusCode} (${Date.now() - started}ms)`);
+    });
+    handle(req, res, routes).catch((e: any) => {
+      console.error('[dev-api] unhandled error:', e?.stack ?? e);
+      if (!res.headersSent) (res as any).status(500).json({ error: String(e?.message ?? e) });
+      else res.end();
+    });
+  });
+
+  server.listen(PORT, () => {
+    console.log(`[dev-api] http://localhost:${PORT}/api/ (${[...routes].join(', ')})`);
+  });
+}
+
+main().catch((e: any) => {
+  console.error(e?.message ?? e);
+  process.exit(1);
+});
@@ -0,0 +1,167 @@
+// scripts/fixtures.ts
+// ローカル API サーバー用: 外部 API（GNews / 記事ページ / Gemini / Finnhub など）への fetch を
+// fixtures/ 以下の JSON で差し替える。
+//  - replay: 記録済みのレスポンスを返す（ネットワークに出ない）。見つからなければ 599
+//  - record: 実際に取りに行き、レスポンスを fixtures/ に保存する
+// localhost と KV（Upstash）はどちらのモードでも素通しする。
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+
+export type FixtureMode = 'replay' | 'record';
+
+/**
+ * fixtures/<host>/*.json の形式。手書きするときは body の代わりに json も使える。
+ */
+type Fixture = {
+  request: {
+    method: string;
+    url: string; // API キーなどは含めない
+    bodySha1?: string; // 記録時のリクエスト本文のハッシュ（完全一致）
+  };
+  // 手書き用のゆるい一致条件（リクエスト本文に全部含まれていれば一致）
+  match?: { bodyIncludes?: string[] };
+  response: {
+    status: number;
+    headers?: Record<string, string>;
+    body?: string;
+    bodyBase64?: string; // UTF-8 以外（Shift_JIS のページなど）
+    json?: unknown;
+  };
+};
+
+// 記録しない・照合に使わないクエリパラメータ（API キーと、実行時刻で変わる範囲指定）
+const SECRET_PARAMS = ['apikey', 'api_key', 'key', 'token'];
+const VOLATILE_PARAMS = ['from', 'to'];
+
+function normalizeUrl(url: string): string {
+  const u = new URL(url);
+  for (const p of [...SECRET_PARAMS, ...VOLATILE_PARAMS]) u.searchParams.delete(p);
+  u.searchParams.sort();
+  u.hash = '';
+  return u.toString();
+}
+
+const sha1 = (s: string) => createHash('sha1').update(s).digest('hex');
+
+function loadFixtures(dir: string): Fixture[] {
+  if (!existsSync(dir)) return [];
+  const fixtures: Fixture[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true, recursive: true })) {
+    if (!entry.isFile() || !entry.name.endsWith('.json')) continue;
+    const file = path.join(entry.parentPath, entry.name);
+    try {
+      fixtures.push(JSON.parse(readFileSync(file, 'utf8')) as Fixture);
+    } catch (e: any) {
+      console.warn(`[WARN] fixture skipped (${file}): ${String(e?.message ?? e)}`);
+    }
+  }
+  return fixtures;
+}
+
+/**
+ * 一致の強さ: 本文ハッシュ一致 > bodyIncludes 一致 > 条件なし（同じ URL なら何でも）
+ */
+function findFixture(fixtures: Fixture[], method: string, url: string, body: string): Fixture | null {
+  const target = normalizeUrl(url);
+  const bodySha1 = body ? sha1(body) : undefined;
+
+  let best: { fixture: Fixture; rank: number } | null = null;
+  for (const f of fixtures) {
+    if (f.request.method.toUpperCase() !== method || normalizeUrl(f.request.url) !== target) continue;
+
+    let rank: number;
+    if (f.request.bodySha1) {
+      if (f.request.bodySha1 !== bodySha1) continue;
+      rank = 3;
+    } else if (f.match?.bodyIncludes?.length) {
+      if (!f.match.bodyIncludes.every((s) => body.includes(s))) continue;
+      rank = 2;
+    } else {
+      rank = 1;
+    }
+    if (!best || rank > best.rank) best = { fixture: f, rank };
+  }
+  return best?.fixture ?? null;
+}
+
+function toResponse(f: Fixture): Response {
+  const r = f.response;
+  const headers = new Headers(r.headers ?? {});
+  let body: BodyInit | null = null;
+  if (r.json !== undefined) {
+    body = JSON.stringify(r.json);
+    if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+  } else if (r.bodyBase64 !== undefined) {
+    body = Buffer.from(r.bodyBase64, 'base64');
+  } else if (r.body !== undefined) {
+    body = r.body;
+  }
+  return new Response(body, { status: r.status, headers });
+}
+
+function fixtureFileName(method: string, url: string, bodySha1: string | undefined): string {
+  const u = new URL(url);
+  const slug =
+    `${method.toLowerCase()}${u.pathname}`
+      .replace(/[^a-zA-Z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+      .slice(0, 60) || 'root';
+  const key = sha1(`${method} ${normalizeUrl(url)} ${bodySha1 ?? ''}`).slice(0, 10);
+  return path.join(u.hostname, `${slug}-${key}.json`);
+}
+
+async function recordFixture(dir: string, method: string, url: string, body: string, resp: Response): Promise<Fixture> {
+  const bytes = Buffer.from(await resp.arrayBuffer());
+  const text = bytes.toString('utf8');
+  // UTF-8 として往復できなければ base64 で持つ
+  const isUtf8 = Buffer.from(text, 'utf8').equals(bytes);
+
+  const contentType = resp.headers.get('content-type');
+  const bodySha1 = body ? sha1(body) : undefined;
+  const fixture: Fixture = {
+    request: { method, url: normalizeUrl(url), ...(bodySha1 ? { bodySha1 } : {}) },
+    response: {
+      status: resp.status,
+      ...(contentType ? { headers: { 'content-type': contentType } } : {}),
+      ...(isUtf8 ? { body: text } : { bodyBase64: bytes.toString('base64') }),
+    },
+  };
+
+  const file = path.join(dir, fixtureFileName(method, url, bodySha1));
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  console.log(`[fixtures] recorded ${method} ${fixture.request.url} → ${path.relative(process.cwd(), file)}`);
+  return fixture;
+}
+
+/**
+ * globalThis.fetch を差し替える。passThrough に一致する URL はそのまま実際の fetch に流す
+ */
+export function installFixtureFetch(opts: { mode: FixtureMode; dir: string; passThrough: (url: URL) => boolean }): void {
+  const realFetch = globalThis.fetch;
+  const fixtures = loadFixtures(opts.dir);
+  console.log(`[fixtures] ${opts.mode} mode, ${fixtures.length} fixtures loaded from ${opts.dir}`);
+
+  globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = input instanceof Request ? input.url : String(input);
+    const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    if (opts.passThrough(new URL(url))) return realFetch(input, init);
+
+    const body = typeof init?.body === 'string' ? init.body : '';
+
+    if (opts.mode === 'replay') {
+      const hit = findFixture(fixtures, method, url, body);
+      if (hit) return toResponse(hit);
+      console.warn(`[fixtures] no fixture for ${method} ${normalizeUrl(url)}（--fixtures=record で記録できます）`);
+      return new Response(`No fixture for ${method} ${normalizeUrl(url)}`, { status: 599 });
+    }
+
+    // record: 呼び出し側にはそのまま返し、複製を保存する（ストリーミングも止めない）
+    const resp = await realFetch(input, init);
+    recordFixture(opts.dir, method, url, body, resp.clone())
+      .then((f) => fixtures.push(f))
+      .catch((e: any) => console.warn(`[WARN] fixture record failed: ${String(e?.message ?? e)}`));
+    return resp;
+  };
+}
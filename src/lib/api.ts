@@ -0,0 +1,33 @@
+// src/lib/api.ts
+import { translate, type UiLocale } from './i18n';
+
+// API エンドポイント設定（開発環境と本番環境で切り替え）
+export const API_BASE_URL = import.meta.env.DEV ? 'http://localhost:3001' : '';
+
+// 429 の待ち時間（秒）。本文の retryAfter → Retry-After ヘッダの順に見る
+export function retryAfterSeconds(res: Response, data: any): number | null {
+  const fromBody = Number(data?.retryAfter);
+  if (Number.isFinite(fromBody) && fromBody > 0) return fromBody;
+  const fromHeader = Number(res.headers.get('Retry-After'));
+  return Number.isFinite(fromHeader) && fromHeader > 0 ? fromHeader : null;
+}
+
+const formatWait = (seconds: number, locale: UiLocale) =>
+  seconds < 60
+    ? translate(locale, 'wait.seconds', { n: seconds })
+    : seconds < 3600
+      ? translate(locale, 'wait.minutes', { n: Math.ceil(seconds / 60) })
+      : translate(locale, 'wait.hours', { n: Math.ceil(seconds / 3600) });
+
+// API のエラーを表示用の文言にする（429 は待ち時間を添える）
+// API のエラー文は日本語なので、429 で英語表示のときは待ち時間からこちらで文言を作る
+export function apiErrorMessage(res: Response, data: any, fallback: string, locale: UiLocale = 'ja'): string {
+  if (res.status === 429) {
+    const wait = retryAfterSeconds(res, data);
+    if (data?.error && locale === 'ja') return data.error;
+    return wait
+      ? translate(locale, 'error.busyWait', { wait: formatWait(wait, locale) })
+      : translate(locale, 'error.busy');
+  }
+  return data?.error || fallback;
+}
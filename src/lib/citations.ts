@@ -0,0 +1,18 @@
+// src/lib/citations.ts
+// レポート中の出典番号 [n] を、参考文献リストへのアンカーリンクにする
+
+export function sourceAnchorId(n: number): string {
+  return `source-${n}`;
+}
+
+/**
+ * "[1]" → "[[1]](#source-1)"（Markdown のリンク）
+ * - sourceCount の範囲外の番号や、既にリンクになっている "[1](...)" はそのまま
+ */
+export function linkCitations(markdown: string, sourceCount: number): string {
+  if (sourceCount <= 0) return markdown;
+  return markdown.replace(/\[(\d{1,2})\](?![(:\]])/g, (match, num: string) => {
+    const n = Number(num);
+    return n >= 1 && n <= sourceCount ? `[[${n}]](#${sourceAnchorId(n)})` : match;
+  });
+}
@@ -0,0 +1,46 @@
+import { marked, type Tokens } from 'marked';
+import { describe, expect, it } from 'vitest';
+import { toMarkdown, type ExportDocument } from './export';
+
+const docWith = (url: string): ExportDocument => ({
+  companyName: 'トヨタ自動車',
+  generatedAt: '2026-10-19T01:00:00Z',
+  model: null,
+  report: '本文 [1]',
+  sources: [{ title: '決算 [速報]', url, sourceName: 'Example', publishedAt: '' }],
+  qa: [],
+});
+
+// 書き出した Markdown を読み直したときのリンク先
+function linkHrefs(markdown: string): string[] {
+  const hrefs: string[] = [];
+  marked.walkTokens(marked.lexer(markdown), (token) => {
+    if (token.type === 'link') hrefs.push((token as Tokens.Link).href);
+  });
+  return hrefs;
+}
+
+describe('toMarkdown', () => {
+  it.each([
+    'https://example.com/news/article',
+    'https://example.com/wiki/Toyota_(company)',
+    'https://example.com/a b?q=(1)',
+  ])('keeps the source link intact for %s', (url) => {
+    const hrefs = linkHrefs(toMarkdown(docWith(url)));
+    // 参考記事の一覧と、本文の [1] の参照定義
+    expect(hrefs.map(decodeURI)).toEqual([url, url]);
+  });
+
+  it('writes the labels in the UI language', () => {
+    const en = toMarkdown({ ...docWith('https://example.com/'), qa: [{ question: 'Q', answer: '' }] }, 'en');
+    expect(en).toContain('# トヨタ自動車 analysis report');
+    expect(en).toContain('- Model: Unknown');
+    expect(en).toContain('## Sources');
+    expect(en).toContain('(No answer)');
+    expect(en).not.toMatch(/生成日時|参考記事|対話履歴/);
+  });
+
+  it('escapes brackets in the link text', () => {
+    expect(toMarkdown(docWith('https://example.com/'))).toContain('[決算 \\[速報\\]](<https://example.com/>)');
+  });
+});
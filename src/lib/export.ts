@@ -0,0 +1,211 @@
+// src/lib/export.ts
+// 分析レポートの書き出し（Markdown / 単体で開ける HTML / 印刷して PDF）
+import { linkCitations, sourceAnchorId } from './citations';
+import { dateLocaleOf, translate, type UiLocale } from './i18n';
+import { renderMarkdown } from './markdown';
+import type { NewsSource, ReportModel } from '../types';
+
+export type ExportQa = {
+  question: string;
+  answer: string;
+  cancelled?: boolean;
+};
+
+export type ExportDocument = {
+  companyName: string;
+  generatedAt: string; // ISO8601（不明なら空文字）
+  model: ReportModel | null;
+  report: string; // Markdown（本文中の [n] は sources[n - 1]）
+  sources: NewsSource[];
+  qa: ExportQa[]; // 古い順
+};
+
+const formatDateTime = (iso: string, locale: UiLocale) => {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleString(dateLocaleOf(locale));
+};
+
+const modelLabel = (model: ReportModel | null, locale: UiLocale) =>
+  model ? `${model.provider} / ${model.name}${model.version ? ` (${model.version})` : ''}` : translate(locale, 'export.unknown');
+
+// 見出しのあとのメタ情報（生成日時・モデル・書き出し日時）
+const metaLines = (doc: ExportDocument, locale: UiLocale) => [
+  translate(locale, 'export.generatedAt', {
+    date: doc.generatedAt ? formatDateTime(doc.generatedAt, locale) : translate(locale, 'export.unknown'),
+  }),
+  translate(locale, 'export.model', { model: modelLabel(doc.model, locale) }),
+  translate(locale, 'export.exportedAt', { date: formatDateTime(new Date().toISOString(), locale) }),
+];
+
+const sourceMeta = (s: NewsSource, locale: UiLocale) =>
+  [s.sourceName || translate(locale, 'export.unknownSource'), s.publishedAt ? formatDateTime(s.publishedAt, locale) : '']
+    .filter((x) => x)
+    .join(' ・ ');
+
+const escapeHtml = (s: string) =>
+  s.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+// Markdown のリンク文字列の中で壊れる文字だけ逃がす
+const escapeMarkdownLinkText = (s: string) => s.replace(/([\[\]\\])/g, '\\$1');
+
+// リンク先は <...> で囲む（ニュースの URL によくある括弧や空白で壊れないように）。囲みの中で使えない文字だけ符号化する
+const markdownLinkDestination = (url: string) => `<${url.replace(/[<>\\\r\n]/g, (c) => encodeURIComponent(c))}>`;
+
+/**
+ * ===== Markdown =====
+ * 見出しなどの文言は画面の言語に合わせる（レポート本文はそのまま）
+ */
+export function toMarkdown(doc: ExportDocument, locale: UiLocale = 'ja'): string {
+  const lines: string[] = [
+    `# ${translate(locale, 'export.title', { company: doc.companyName })}`,
+    '',
+    ...metaLines(doc, locale).map((line) => `- ${line}`),
+    '',
+    '---',
+    '',
+    doc.report.trim(),
+    '',
+  ];
+
+  if (doc.sources.length > 0) {
+    lines.push(`## ${translate(locale, 'export.sources')}`, '');
+    doc.sources.forEach((s, i) => {
+      lines.push(`${i + 1}. [${escapeMarkdownLinkText(s.title || s.url)}](${markdownLinkDestination(s.url)}) — ${sourceMeta(s, locale)}`);
+    });
+    lines.push('');
+  }
+
+  if (doc.qa.length > 0) {
+    lines.push(`## ${translate(locale, 'followUp.history')}`, '');
+    doc.qa.forEach((item, i) => {
+      lines.push(`### Q${i + 1}. ${item.question}`, '', item.answer.trim() || translate(locale, 'export.noAnswer'));
+      if (item.cancelled) lines.push('', translate(locale, 'followUp.cancelled'));
+      lines.push('');
+    });
+  }
+
+  // 本文の [n] がそのまま記事へのリンクになるよう参照定義を付ける
+  if (doc.sources.length > 0) {
+    lines.push(...doc.sources.map((s, i) => `[${i + 1}]: ${markdownLinkDestination(s.url)}`), '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * ===== HTML（スタイル込みの単体ファイル） =====
+ */
+const EXPORT_STYLES = `
+body { max-width: 800px; margin: 2rem auto; padding: 0 1rem; font-family: sans-serif; line-height: 1.7; color: #2c3e50; }
+h1 { font-size: 1.6rem; border-bottom: 2px solid #2c3e50; padding-bottom: 0.3rem; }
+.meta { color: #6c757d; font-size: 0.9rem; margin: 0 0 1.5rem; padding: 0; list-style: none; }
+table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+th, td { border: 1px solid #ddd; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f8f9fa; }
+a { color: #0d6efd; }
+section { margin-top: 2rem; padding-top: 1rem; border-top: 1px solid #eee; }
+.sources li { margin-bottom: 0.3rem; }
+.source-meta { display: block; font-size: 0.8rem; color: #6c757d; }
+.question { font-weight: 700; margin: 1.5rem 0 0.5rem; }
+.answer { padding-left: 1rem; border-left: 3px solid #dee2e6; }
+.note { color: #6c757d; font-size: 0.85rem; }
+@media print {
+  body { margin: 0; max-width: none; }
+  a { color: inherit; text-decoration: none; }
+  section, .question { break-inside: avoid-page; }
+}
+`.trim();
+
+export function toStandaloneHtml(doc: ExportDocument, locale: UiLocale = 'ja'): string {
+  const title = translate(locale, 'export.title', { company: doc.companyName });
+  const meta = metaLines(doc, locale)
+    .map((line) => `<li>${escapeHtml(line)}</li>`)
+    .join('\n');
+
+  const sources = doc.sources
+    .map(
+      (s, i) =>
+        `<li id="${sourceAnchorId(i + 1)}"><a href="${escapeHtml(s.url)}" target="_blank" rel="noopener noreferrer">` +
+        `${escapeHtml(s.title || s.url)}</a><span class="source-meta">${escapeHtml(sourceMeta(s, locale))}</span></li>`
+    )
+    .join('\n');
+
+  const qa = doc.qa
+    .map(
+      (item, i) =>
+        `<p class="question">Q${i + 1}. ${escapeHtml(item.question)}</p>\n` +
+        `<div class="answer">${renderMarkdown(item.answer || translate(locale, 'export.noAnswer'))}</div>` +
+        (item.cancelled ? `\n<p class="note">${escapeHtml(translate(locale, 'followUp.cancelled'))}</p>` : '')
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+${EXPORT_STYLES}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<ul class="meta">
+${meta}
+</ul>
+<article>
+${renderMarkdown(linkCitations(doc.report, doc.sources.length))}
+</article>
+${sources ? `<section class="sources">\n<h2>${escapeHtml(translate(locale, 'export.sources'))}</h2>\n<ol>\n${sources}\n</ol>\n</section>` : ''}
+${qa ? `<section class="qa">\n<h2>${escapeHtml(translate(locale, 'followUp.history'))}</h2>\n${qa}\n</section>` : ''}
+</body>
+</html>
+`;
+}
+
+/**
+ * ===== ブラウザでの保存・印刷 =====
+ */
+export function exportFileName(doc: ExportDocument, ext: string): string {
+  const d = doc.generatedAt ? new Date(doc.generatedAt) : new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = Number.isNaN(d.getTime())
+    ? 'report'
+    : `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}`;
+  const company = doc.companyName.replace(/[\\/:*?"<>|\s]+/g, '_');
+  return `${company}_${stamp}.${ext}`;
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // click 直後に破棄するとダウンロードが始まらないブラウザがある
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * HTML を見えない iframe に読み込んで印刷ダイアログを開く（「PDF に保存」で PDF になる）
+ * ポップアップブロックに掛からないよう別ウィンドウは使わない
+ */
+export function printHtml(html: string): void {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  iframe.srcdoc = html;
+  iframe.onload = () => {
+    const win = iframe.contentWindow;
+    if (!win) return iframe.remove();
+    win.addEventListener('afterprint', () => iframe.remove());
+    win.focus();
+    win.print();
+  };
+  document.body.appendChild(iframe);
+}
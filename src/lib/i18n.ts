@@ -0,0 +1,378 @@
+// src/lib/i18n.ts
+// 画面の文言（日本語 / 英語）。選んだ言語はブラウザに保存し、次回もそれで開く。
+// 文言の {name} は params で置き換える。
+
+export type UiLocale = 'ja' | 'en';
+
+const STORAGE_KEY = 'ui-locale';
+
+const ja = {
+  'app.title': 'ＡＩマーケットアナリスト',
+  'mode.single': '企業分析',
+  'mode.compare': '企業比較',
+  'mode.watchlist': 'ウォッチリスト',
+  'sessions.toggle': '過去のセッション',
+  'search.placeholder': '企業名を入力 (例: トヨタ自動車)',
+  'search.submit': '分析する',
+  'search.running': '分析中...',
+  'options.newsEditions': 'ニュースの言語・地域',
+  'options.outputLanguage': 'レポートの言語',
+  'options.timeWindow': 'ニュースの期間',
+  'window.all': '指定なし',
+  'window.24h': '直近24時間',
+  'window.7d': '直近7日',
+  'window.30d': '直近30日',
+  'window.custom': '期間を指定',
+  'window.range': '{from} 〜 {to}',
+  'report.lens': '観点: {label}',
+  'report.window': '対象期間: {label}',
+  'report.versionBanner': '{date} に生成された過去の版を表示しています。',
+  'report.versionTitle': '{company}（{date} の版）',
+  'followUp.title': 'アナリストへの追加質問',
+  'followUp.placeholder': '分析レポートの内容について質問を入力...',
+  'followUp.cancel': '中断する',
+  'followUp.submit': '質問する',
+  'followUp.running': '回答中...',
+  'followUp.history': '対話履歴',
+  'followUp.cancelled': '（回答を中断しました）',
+  'stage.queued': '開始待ち',
+  'stage.news': 'ニュースを検索中',
+  'stage.scraping': '記事本文を取得中',
+  'stage.generation': 'レポートを生成中',
+  'stage.caching': '結果を保存中',
+  'error.companyRequired': '企業名を入力してください。',
+  'error.customWindow': '期間の開始日と終了日を指定してください。',
+  'error.analysis': '分析に失敗しました。',
+  'error.jobStatus': '分析状況の取得に失敗しました。',
+  'error.details': '詳細: {details}',
+  'error.requestId': '（リクエスト ID: {id}）',
+  'error.answer': '回答の生成に失敗しました。',
+  'error.symbolSearch': '銘柄の検索に失敗しました。',
+  'error.symbolNotFound': '該当する銘柄が見つかりませんでした。',
+  'error.quote': '株価の取得に失敗しました。',
+  'error.quotePrefix': '株価: {message}',
+  'error.candles': '株価履歴の取得に失敗しました。',
+  'error.busy': 'アクセスが集中しています。しばらく待ってから再度お試しください。',
+  'error.busyWait': 'アクセスが集中しています。{wait}ほど待ってから再度お試しください。',
+  'wait.seconds': '{n}秒',
+  'wait.minutes': '{n}分',
+  'wait.hours': '{n}時間',
+  'history.title': '過去のレポート（版の履歴）',
+  'history.loading': '読み込み中...',
+  'history.empty': '保存された版はまだありません。',
+  'history.base': '旧',
+  'history.target': '新',
+  'history.generatedAt': '生成日時',
+  'history.lens': '観点',
+  'history.language': '言語',
+  'history.editions': 'ニュース',
+  'history.window': '期間',
+  'history.model': 'モデル',
+  'history.articles': '記事数',
+  'history.open': '開く',
+  'history.diff': '選択した2つの版の差分を表示',
+  'history.loadError': '履歴の取得に失敗しました。',
+  'history.versionError': '版の取得に失敗しました。',
+  'watchlist.placeholder': '企業名を入力して追加',
+  'watchlist.add': '＋ 追加',
+  'watchlist.reload': '再読み込み',
+  'watchlist.note': '登録した企業は毎朝（日本時間 07:30 ごろ）自動で再分析し、前回からの変化を判定します（最大 {max} 社、チームで共有）。',
+  'watchlist.noWebhook': '通知先（WATCHLIST_WEBHOOK_URL）が未設定のため、結果はこの画面でだけ確認できます。',
+  'watchlist.empty': 'まだ登録された企業はありません。',
+  'watchlist.company': '企業',
+  'watchlist.checkedAt': '最終チェック',
+  'watchlist.result': '結果',
+  'watchlist.notRun': '未実行',
+  'watchlist.failed': '失敗',
+  'watchlist.skipped': '見送り',
+  'watchlist.changed': '変化あり',
+  'watchlist.unchanged': '変化なし',
+  'watchlist.open': '開く',
+  'watchlist.remove': '削除',
+  'watchlist.loadError': 'ウォッチリストの取得に失敗しました。',
+  'watchlist.updateError': 'ウォッチリストの更新に失敗しました。',
+  'export.label': '書き出し:',
+  'export.pdf': 'PDF（印刷）',
+  'export.title': '{company} 分析レポート',
+  'export.generatedAt': '生成日時: {date}',
+  'export.model': 'モデル: {model}',
+  'export.exportedAt': '書き出し日時: {date}',
+  'export.unknown': '不明',
+  'export.sources': '参考記事',
+  'export.unknownSource': '出典不明',
+  'export.noAnswer': '（回答なし）',
+  'compare.placeholder': '企業名 {n}',
+  'compare.add': '＋ 企業を追加',
+  'compare.submit': '比較する',
+  'compare.running': '比較中...',
+  'compare.company': '企業',
+  'compare.sentiment': 'センチメント',
+  'compare.strengths': '強み',
+  'compare.risks': 'リスク',
+  'compare.outlook': '見通し',
+  'compare.origin': '（{label}）',
+  'compare.originCache': '既存レポートを使用',
+  'compare.originNews': 'ニュースから取得',
+  'compare.originNone': '情報なし',
+  'compare.minCompanies': '企業名を{min}社以上入力してください。',
+  'compare.error': '比較に失敗しました。',
+  'summary.sentiment': '総合センチメント',
+  'summary.topics': '主要トピック',
+  'summary.positiveFactors': 'ポジティブ要因',
+  'summary.negativeFactors': 'ネガティブ要因',
+  'summary.shortTerm': '注目点（短期）',
+  'summary.midTerm': '注目点（中期）',
+  'summary.positive': 'ポジティブ',
+  'summary.neutral': '中立',
+  'summary.negative': 'ネガティブ',
+  'sources.title': '参考記事',
+  'sources.unknownSource': '出典不明',
+  'sources.extraction': '本文 {chars} 文字（{method}）',
+  'sources.partial': '本文の一部のみ',
+  'sources.paywalled': '有料記事（冒頭のみ）',
+  'sources.empty': '本文なし',
+  'quote.high': '高値',
+  'quote.low': '安値',
+  'quote.previousClose': '前日終値',
+  'quote.asOf': '{time} 時点',
+  'chart.title': '株価推移とニュース',
+  'chart.loading': '読み込み中...',
+  'chart.ariaLabel': '株価チャート',
+  'chart.noData': '表示できる株価データがありません。',
+  'chart.legend': 'ニュース記事の公開日（マウスを重ねると見出しを表示）',
+  'chart.source': '（{name}）',
+  'sidebar.title': '過去のセッション',
+  'sidebar.close': '閉じる',
+  'sidebar.search': '企業名・レポート・質問を検索',
+  'sidebar.empty': 'まだセッションはありません。',
+  'sidebar.noMatch': '該当するセッションはありません。',
+  'sidebar.save': '保存',
+  'sidebar.cancel': '取消',
+  'sidebar.questions': '質問 {n} 件',
+  'sidebar.rename': '名前を変更',
+  'sidebar.remove': '削除',
+  'sidebar.confirmRemove': '「{title}」を削除しますか？',
+  'debug.title': 'デバッグ情報',
+  'debug.requestId': 'リクエスト ID',
+  'debug.startedAt': '開始',
+  'debug.total': '合計',
+  'debug.models': 'モデル',
+  'debug.tokens': 'トークン',
+  'debug.tokenUsage': '入力 {prompt} / 出力 {completion}（合計 {total}）',
+  'debug.unknown': '不明',
+  'debug.noModels': '（呼び出しなし）',
+  'debug.stage': '段階',
+  'debug.duration': '所要時間',
+  'debug.timeline': 'タイムライン',
+  'span.cache.read': 'キャッシュ確認',
+  'span.lock': 'ロック取得',
+  'span.news.search': 'ニュース検索',
+  'span.scrape': '記事本文の取得',
+  'span.llm.listModels': 'モデル一覧の取得',
+  'span.generation.report': 'レポート生成',
+  'span.generation.structured': '構造化分析の生成',
+  'span.cache.write': 'キャッシュ保存',
+  'span.history.write': '履歴保存',
+};
+
+export type MessageKey = keyof typeof ja;
+
+const en: Record<MessageKey, string> = {
+  'app.title': 'AI Market Analyst',
+  'mode.single': 'Company analysis',
+  'mode.compare': 'Compare companies',
+  'mode.watchlist': 'Watchlist',
+  'sessions.toggle': 'Past sessions',
+  'search.placeholder': 'Enter a company name (e.g. Toyota Motor)',
+  'search.submit': 'Analyze',
+  'search.running': 'Analyzing...',
+  'options.newsEditions': 'News languages / regions',
+  'options.outputLanguage': 'Report language',
+  'options.timeWindow': 'News period',
+  'window.all': 'Any time',
+  'window.24h': 'Last 24 hours',
+  'window.7d': 'Last 7 days',
+  'window.30d': 'Last 30 days',
+  'window.custom': 'Custom range',
+  'window.range': '{from} – {to}',
+  'report.lens': 'Lens: {label}',
+  'report.window': 'Period: {label}',
+  'report.versionBanner': 'Showing a past version generated at {date}.',
+  'report.versionTitle': '{company} (version of {date})',
+  'followUp.title': 'Ask the analyst a follow-up question',
+  'followUp.placeholder': 'Ask a question about the report...',
+  'followUp.cancel': 'Stop',
+  'followUp.submit': 'Ask',
+  'followUp.running': 'Answering...',
+  'followUp.history': 'Conversation',
+  'followUp.cancelled': '(Answer stopped)',
+  'stage.queued': 'Waiting to start',
+  'stage.news': 'Searching news',
+  'stage.scraping': 'Fetching article text',
+  'stage.generation': 'Writing the report',
+  'stage.caching': 'Saving results',
+  'error.companyRequired': 'Please enter a company name.',
+  'error.customWindow': 'Please choose both a start and an end date.',
+  'error.analysis': 'The analysis failed.',
+  'error.jobStatus': 'Could not get the analysis status.',
+  'error.details': 'Details: {details}',
+  'error.requestId': '(Request ID: {id})',
+  'error.answer': 'Could not generate an answer.',
+  'error.symbolSearch': 'Symbol search failed.',
+  'error.symbolNotFound': 'No matching symbol was found.',
+  'error.quote': 'Could not get the stock quote.',
+  'error.quotePrefix': 'Quote: {message}',
+  'error.candles': 'Could not get the price history.',
+  'error.busy': 'The service is busy. Please wait a moment and try again.',
+  'error.busyWait': 'The service is busy. Please try again in about {wait}.',
+  'wait.seconds': '{n} s',
+  'wait.minutes': '{n} min',
+  'wait.hours': '{n} h',
+  'history.title': 'Past reports (version history)',
+  'history.loading': 'Loading...',
+  'history.empty': 'No saved versions yet.',
+  'history.base': 'Old',
+  'history.target': 'New',
+  'history.generatedAt': 'Generated',
+  'history.lens': 'Lens',
+  'history.language': 'Language',
+  'history.editions': 'News',
+  'history.window': 'Period',
+  'history.model': 'Model',
+  'history.articles': 'Articles',
+  'history.open': 'Open',
+  'history.diff': 'Show the difference between the two selected versions',
+  'history.loadError': 'Could not get the version history.',
+  'history.versionError': 'Could not get the version.',
+  'watchlist.placeholder': 'Enter a company name to add',
+  'watchlist.add': '+ Add',
+  'watchlist.reload': 'Reload',
+  'watchlist.note': 'Listed companies are re-analyzed every morning (around 07:30 JST) and compared with the previous run (up to {max} companies, shared with your team).',
+  'watchlist.noWebhook': 'No notification target (WATCHLIST_WEBHOOK_URL) is set, so results are only shown on this page.',
+  'watchlist.empty': 'No companies on the watchlist yet.',
+  'watchlist.company': 'Company',
+  'watchlist.checkedAt': 'Last checked',
+  'watchlist.result': 'Result',
+  'watchlist.notRun': 'Not run yet',
+  'watchlist.failed': 'Failed',
+  'watchlist.skipped': 'Skipped',
+  'watchlist.changed': 'Changed',
+  'watchlist.unchanged': 'No change',
+  'watchlist.open': 'Open',
+  'watchlist.remove': 'Remove',
+  'watchlist.loadError': 'Could not get the watchlist.',
+  'watchlist.updateError': 'Could not update the watchlist.',
+  'export.label': 'Export:',
+  'export.pdf': 'PDF (print)',
+  'export.title': '{company} analysis report',
+  'export.generatedAt': 'Generated: {date}',
+  'export.model': 'Model: {model}',
+  'export.exportedAt': 'Exported: {date}',
+  'export.unknown': 'Unknown',
+  'export.sources': 'Sources',
+  'export.unknownSource': 'Unknown source',
+  'export.noAnswer': '(No answer)',
+  'compare.placeholder': 'Company {n}',
+  'compare.add': '+ Add a company',
+  'compare.submit': 'Compare',
+  'compare.running': 'Comparing...',
+  'compare.company': 'Company',
+  'compare.sentiment': 'Sentiment',
+  'compare.strengths': 'Strengths',
+  'compare.risks': 'Risks',
+  'compare.outlook': 'Outlook',
+  'compare.origin': '({label})',
+  'compare.originCache': 'from an existing report',
+  'compare.originNews': 'from the news',
+  'compare.originNone': 'no information',
+  'compare.minCompanies': 'Please enter at least {min} company names.',
+  'compare.error': 'The comparison failed.',
+  'summary.sentiment': 'Overall sentiment',
+  'summary.topics': 'Key topics',
+  'summary.positiveFactors': 'Positive factors',
+  'summary.negativeFactors': 'Negative factors',
+  'summary.shortTerm': 'Watch points (short term)',
+  'summary.midTerm': 'Watch points (medium term)',
+  'summary.positive': 'Positive',
+  'summary.neutral': 'Neutral',
+  'summary.negative': 'Negative',
+  'sources.title': 'Sources',
+  'sources.unknownSource': 'Unknown source',
+  'sources.extraction': '{chars} characters of text ({method})',
+  'sources.partial': 'Partial text only',
+  'sources.paywalled': 'Paywalled (opening only)',
+  'sources.empty': 'No text',
+  'quote.high': 'High',
+  'quote.low': 'Low',
+  'quote.previousClose': 'Previous close',
+  'quote.asOf': 'As of {time}',
+  'chart.title': 'Price history and news',
+  'chart.loading': 'Loading...',
+  'chart.ariaLabel': 'Stock price chart',
+  'chart.noData': 'No price data to show.',
+  'chart.legend': 'News publication dates (hover to see the headline)',
+  'chart.source': ' ({name})',
+  'sidebar.title': 'Past sessions',
+  'sidebar.close': 'Close',
+  'sidebar.search': 'Search companies, reports and questions',
+  'sidebar.empty': 'No sessions yet.',
+  'sidebar.noMatch': 'No matching sessions.',
+  'sidebar.save': 'Save',
+  'sidebar.cancel': 'Cancel',
+  'sidebar.questions': '{n} questions',
+  'sidebar.rename': 'Rename',
+  'sidebar.remove': 'Delete',
+  'sidebar.confirmRemove': 'Delete "{title}"?',
+  'debug.title': 'Debug info',
+  'debug.requestId': 'Request ID',
+  'debug.startedAt': 'Started',
+  'debug.total': 'Total',
+  'debug.models': 'Models',
+  'debug.tokens': 'Tokens',
+  'debug.tokenUsage': 'Input {prompt} / output {completion} (total {total})',
+  'debug.unknown': 'Unknown',
+  'debug.noModels': '(no calls)',
+  'debug.stage': 'Stage',
+  'debug.duration': 'Duration',
+  'debug.timeline': 'Timeline',
+  'span.cache.read': 'Cache lookup',
+  'span.lock': 'Acquire lock',
+  'span.news.search': 'News search',
+  'span.scrape': 'Fetch article text',
+  'span.llm.listModels': 'List models',
+  'span.generation.report': 'Generate report',
+  'span.generation.structured': 'Generate structured analysis',
+  'span.cache.write': 'Save to cache',
+  'span.history.write': 'Save history',
+};
+
+const MESSAGES: Record<UiLocale, Record<MessageKey, string>> = { ja, en };
+
+export function translate(locale: UiLocale, key: MessageKey, params?: Record<string, string | number>): string {
+  const text = MESSAGES[locale][key] ?? MESSAGES.ja[key];
+  return params ? text.replace(/\{(\w+)\}/g, (m, name: string) => String(params[name] ?? m)) : text;
+}
+
+// 保存した言語 → ブラウザの言語（日本語以外は英語）
+export function initialLocale(): UiLocale {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved === 'ja' || saved === 'en') return saved;
+  } catch {
+    // localStorage が使えなくても既定で続ける
+  }
+  return typeof navigator !== 'undefined' && !navigator.language.toLowerCase().startsWith('ja') ? 'en' : 'ja';
+}
+
+export function saveLocale(locale: UiLocale): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // 保存できなくても表示は切り替わっているので無視する
+  }
+}
+
+// 日時の表示もロケールに合わせる
+export function dateLocaleOf(locale: UiLocale): string {
+  return locale === 'en' ? 'en-US' : 'ja-JP';
+}
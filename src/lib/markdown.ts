@@ -0,0 +1,24 @@
+// src/lib/markdown.ts
+// Markdown → 無害化済み HTML（同じ入力は使い回す）
+import { marked } from 'marked';
+import { sanitizeHtml } from './sanitize';
+
+// 直近に描画したものだけ覚えておく（ストリーミング中の途中経過で膨らまないよう件数で制限）
+const CACHE_LIMIT = 50;
+const cache = new Map<string, string>();
+
+export function renderMarkdown(source: string): string {
+  const hit = cache.get(source);
+  if (hit !== undefined) {
+    // Map は挿入順なので、入れ直して「最近使った」扱いにする
+    cache.delete(source);
+    cache.set(source, hit);
+    return hit;
+  }
+
+  // gfm: テーブル・取り消し線・タスクリスト
+  const html = sanitizeHtml(marked.parse(source, { async: false, gfm: true }));
+  cache.set(source, html);
+  if (cache.size > CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+  return html;
+}
@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from './sanitize';
+
+// 結果を DOM として調べる
+function sanitized(html: string): HTMLElement {
+  const el = document.createElement('div');
+  el.innerHTML = sanitizeHtml(html);
+  return el;
+}
+
+describe('sanitizeHtml', () => {
+  it('keeps ordinary Markdown output as is', () => {
+    const html = '<h2>概要</h2><p><strong>増収</strong>、<em>減益</em></p><ul><li>a</li></ul>';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it.each([
+    '<script>alert(1)</script>',
+    '<svg><script>alert(1)</script><circle onload="alert(1)"></circle></svg>',
+    '<math><mtext><img src=x onerror="alert(1)"></mtext></math>',
+    '<iframe src="https://evil.example"></iframe>',
+    '<style>body { display: none }</style>',
+  ])('drops %s with its content', (html) => {
+    expect(sanitizeHtml(`<p>before</p>${html}<p>after</p>`)).toBe('<p>before</p><p>after</p>');
+  });
+
+  it('unwraps unknown tags but keeps their text', () => {
+    expect(sanitizeHtml('<p><font color="red">注意</font></p>')).toBe('<p>注意</p>');
+  });
+
+  it('removes event handler and style attributes', () => {
+    const el = sanitized('<p onclick="alert(1)" style="color:red">x</p><img src=x onerror="alert(1)"><a href="https://example.com" onmouseover="alert(1)">y</a>');
+    expect(el.querySelector('[onclick], [onerror], [onmouseover], [style]')).toBeNull();
+    expect(el.querySelector('img')).toBeNull();
+    expect(el.textContent).toBe('xy');
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    ' JaVaScRiPt:alert(1)',
+    'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+    'vbscript:msgbox(1)',
+  ])('strips the href %j', (href) => {
+    const a = sanitized(`<a href="${href}">link</a>`).querySelector('a')!;
+    expect(a.hasAttribute('href')).toBe(false);
+    expect(a.textContent).toBe('link');
+  });
+
+  it('opens external links in a new tab without an opener', () => {
+    const a = sanitized('<a href="https://news.example.com/a" target="_self">記事</a>').querySelector('a')!;
+    expect(a.getAttribute('href')).toBe('https://news.example.com/a');
+    expect(a.getAttribute('target')).toBe('_blank');
+    expect(a.getAttribute('rel')).toBe('noopener noreferrer');
+  });
+
+  it('leaves in-page links in the same tab', () => {
+    const a = sanitized('<a href="#source-1">[1]</a>').querySelector('a')!;
+    expect(a.getAttribute('href')).toBe('#source-1');
+    expect(a.hasAttribute('target')).toBe(false);
+  });
+
+  it('keeps only checkbox inputs and language classes on code', () => {
+    const el = sanitized('<input type="checkbox" checked disabled><input type="text" value="x"><code class="language-ts">a</code><code class="evil">b</code>');
+    expect(el.querySelectorAll('input')).toHaveLength(1);
+    expect(el.querySelector('input')!.getAttribute('type')).toBe('checkbox');
+    const codes = el.querySelectorAll('code');
+    expect(codes[0].getAttribute('class')).toBe('language-ts');
+    expect(codes[1].hasAttribute('class')).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+// src/lib/sanitize.ts
+// LLM の出力（元はスクレイピングした外部の記事）から作った HTML を、許可リストで無害化する。
+// 記事経由のプロンプトインジェクションで <script> や onerror=... を埋め込まれても実行されないようにする。
+
+// 許可するタグと、タグごとに許可する属性
+const ALLOWED_TAGS: Record<string, string[]> = {
+  p: [],
+  br: [],
+  hr: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  strong: [],
+  b: [],
+  em: [],
+  i: [],
+  del: [],
+  s: [],
+  sup: [],
+  sub: [],
+  span: [],
+  blockquote: [],
+  code: ['class'],
+  pre: [],
+  ul: [],
+  ol: ['start'],
+  li: [],
+  table: [],
+  thead: [],
+  tbody: [],
+  tr: [],
+  th: ['align', 'colspan', 'rowspan'],
+  td: ['align', 'colspan', 'rowspan'],
+  a: ['href', 'title'],
+  input: ['type', 'checked', 'disabled'], // GFM のタスクリスト
+};
+
+// 中身ごと捨てるタグ（それ以外の未許可タグはタグだけ外して中身を残す）
+const DROP_WITH_CONTENT = new Set([
+  'script',
+  'style',
+  'iframe',
+  'object',
+  'embed',
+  'template',
+  'noscript',
+  'svg',
+  'math',
+  'form',
+  'textarea',
+  'select',
+  'button',
+]);
+
+const SAFE_URL = /^(https?:|mailto:|#)/i;
+
+function isExternal(href: string): boolean {
+  if (!/^https?:/i.test(href)) return false;
+  try {
+    return new URL(href).origin !== window.location.origin;
+  } catch {
+    return true;
+  }
+}
+
+function sanitizeElement(el: Element): void {
+  for (const child of Array.from(el.children)) {
+    const tag = child.tagName.toLowerCase();
+    const allowedAttrs = ALLOWED_TAGS[tag];
+
+    if (!allowedAttrs) {
+      if (DROP_WITH_CONTENT.has(tag)) {
+        child.remove();
+      } else {
+        sanitizeElement(child);
+        child.replaceWith(...Array.from(child.childNodes));
+      }
+      continue;
+    }
+
+    for (const attr of Array.from(child.attributes)) {
+      if (!allowedAttrs.includes(attr.name.toLowerCase())) child.removeAttribute(attr.name);
+    }
+
+    if (tag === 'a') {
+      const href = (child.getAttribute('href') ?? '').trim();
+      if (!SAFE_URL.test(href)) child.removeAttribute('href');
+      else if (isExternal(href)) {
+        child.setAttribute('target', '_blank');
+        child.setAttribute('rel', 'noopener noreferrer');
+      }
+    }
+    if (tag === 'code' && !/^language-[\w-]+$/.test(child.getAttribute('class') ?? '')) {
+      child.removeAttribute('class');
+    }
+    if (tag === 'input' && child.getAttribute('type') !== 'checkbox') {
+      child.remove();
+      continue;
+    }
+
+    sanitizeElement(child);
+  }
+}
+
+/**
+ * 許可リストに無いタグ・属性・URL を取り除いた HTML を返す（ブラウザ専用）
+ */
+export function sanitizeHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  sanitizeElement(doc.body);
+  return doc.body.innerHTML;
+}
@@ -0,0 +1,136 @@
+// src/lib/sessions.ts
+// 分析セッション（レポート + 対話履歴）をブラウザに保存する。
+// IndexedDB が使えればそちら、使えなければ localStorage に保存する。
+import type { NewsRange, NewsSource, ReportModel, StructuredAnalysis, TimeWindow } from '../types';
+
+export type SessionQa = {
+  question: string;
+  answer: string;
+  cancelled?: boolean;
+};
+
+export type StoredSession = {
+  id: string;
+  title: string; // 一覧での表示名（既定は企業名、名前変更できる）
+  companyName: string;
+  report: string;
+  analysis: StructuredAnalysis | null;
+  sources: NewsSource[];
+  model: ReportModel | null;
+  generatedAt: string; // レポートの生成日時
+  lens?: string; // 分析の観点（古いセッションには無い）
+  timeWindow?: TimeWindow; // ニュースの対象期間（同上）
+  outputLanguage?: string; // レポートの言語（同上）
+  newsEditions?: string[]; // ニュースのエディション（同上）
+  newsRange?: NewsRange | null;
+  qa: SessionQa[]; // 古い順
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SessionStore = {
+  list(): Promise<StoredSession[]>; // 更新が新しい順
+  save(session: StoredSession): Promise<void>;
+  remove(id: string): Promise<void>;
+};
+
+// 古いものから捨てる（localStorage の容量対策も兼ねる）
+export const MAX_SESSIONS = 50;
+
+const byUpdatedDesc = (a: StoredSession, b: StoredSession) => b.updatedAt.localeCompare(a.updatedAt);
+
+/**
+ * ===== IndexedDB =====
+ */
+const DB_NAME = 'market-analyst';
+const STORE_NAME = 'sessions';
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function createIndexedDbStore(): SessionStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    dbPromise ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return dbPromise;
+  };
+
+  const store = async (mode: IDBTransactionMode) =>
+    (await openDb()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  async function list(): Promise<StoredSession[]> {
+    const all = await requestToPromise((await store('readonly')).getAll() as IDBRequest<StoredSession[]>);
+    return all.sort(byUpdatedDesc);
+  }
+
+  async function save(session: StoredSession): Promise<void> {
+    // Vue の Proxy は保存できないので素のオブジェクトにする
+    await requestToPromise((await store('readwrite')).put(JSON.parse(JSON.stringify(session))));
+    const all = await list();
+    for (const old of all.slice(MAX_SESSIONS)) await remove(old.id);
+  }
+
+  async function remove(id: string): Promise<void> {
+    await requestToPromise((await store('readwrite')).delete(id));
+  }
+
+  return { list, save, remove };
+}
+
+/**
+ * ===== localStorage =====
+ */
+const STORAGE_KEY = 'market-analyst:sessions';
+
+function createLocalStorageStore(): SessionStore {
+  const read = (): StoredSession[] => {
+    try {
+      const data = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+      return Array.isArray(data) ? data : [];
+    } catch {
+      return [];
+    }
+  };
+  const write = (sessions: StoredSession[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions.sort(byUpdatedDesc).slice(0, MAX_SESSIONS)));
+  };
+
+  async function list(): Promise<StoredSession[]> {
+    return read().sort(byUpdatedDesc);
+  }
+
+  async function save(session: StoredSession): Promise<void> {
+    write([session, ...read().filter((s) => s.id !== session.id)]);
+  }
+
+  async function remove(id: string): Promise<void> {
+    write(read().filter((s) => s.id !== id));
+  }
+
+  return { list, save, remove };
+}
+
+let sessionStore: SessionStore | null = null;
+
+export function getSessionStore(): SessionStore {
+  sessionStore ??= typeof indexedDB !== 'undefined' ? createIndexedDbStore() : createLocalStorageStore();
+  return sessionStore;
+}
+
+export function newSessionId(): string {
+  return typeof crypto?.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
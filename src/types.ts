@@ -0,0 +1,183 @@
+// src/types.ts
+// API レスポンスのうち、複数のコンポーネントで使う型
+
+// /api/fetch-stock-quote（Finnhub /quote のフィールド名そのまま）
+export type StockQuote = {
+  symbol: string;
+  c: number; // 現在値
+  d: number | null; // 前日比
+  dp: number | null; // 前日比(%)
+  h: number; // 高値
+  l: number; // 安値
+  o: number; // 始値
+  pc: number; // 前日終値
+  t: number; // UNIX秒
+};
+
+// /api/search-symbol
+export type SymbolCandidate = {
+  symbol: string;
+  name: string;
+  source: 'alias' | 'code' | 'finnhub';
+};
+
+// /api/suggest-companies
+export type CompanySuggestion = {
+  id: string;
+  name: string;
+  symbol: string;
+  matched: string; // 一致した表記（別名で当たったとき用）
+};
+
+// /api/fetch-stock-candles
+export type CandleRange = '1M' | '3M' | '1Y';
+
+export type Candle = {
+  t: number; // UNIX秒
+  o: number | null;
+  h: number | null;
+  l: number | null;
+  c: number | null;
+  v: number | null;
+};
+
+// /api/analyze-company-news の sources
+export type NewsSource = {
+  title: string;
+  url: string;
+  sourceName: string;
+  publishedAt: string; // ISO8601
+  extraction?: {
+    method: 'readability' | 'json-ld' | 'og-description' | 'none';
+    quality: 'full' | 'partial' | 'paywalled' | 'empty';
+    chars: number;
+  };
+};
+
+// /api/analyze-company-news の meta（計測結果。api/_lib/trace.ts の ResponseMeta）
+export type TraceSpan = {
+  name: string;
+  startMs: number; // リクエスト開始からの経過
+  durationMs: number;
+  ok: boolean;
+  detail?: Record<string, string | number | boolean>;
+};
+
+export type ResponseMeta = {
+  requestId: string;
+  route: string;
+  startedAt: string;
+  totalMs: number;
+  spans: TraceSpan[];
+  models: Array<{ provider: string; name: string; version?: string }>;
+  usage: { promptTokens: number; completionTokens: number; totalTokens: number } | null;
+};
+
+// /api/analyze-company-news の analysis（sources は出典番号 = NewsSource の 1 始まりの添字）
+export type AnalysisPoint = {
+  text: string;
+  sources: number[];
+};
+
+export type StructuredAnalysis = {
+  sentiment: {
+    score: number; // -1 〜 1
+    label: 'positive' | 'neutral' | 'negative';
+    rationale: string;
+    sources: number[];
+  };
+  topics: Array<{ title: string; summary: string; sources: number[] }>;
+  positiveFactors: AnalysisPoint[];
+  negativeFactors: AnalysisPoint[];
+  watchPoints: {
+    shortTerm: AnalysisPoint[];
+    midTerm: AnalysisPoint[];
+  };
+};
+
+// /api/compare-companies
+export type ComparisonRow = {
+  companyName: string;
+  sentimentScore: number; // -1 〜 1
+  sentimentLabel: 'positive' | 'neutral' | 'negative';
+  strengths: string[];
+  risks: string[];
+  outlook: string;
+};
+
+export type ComparisonResult = {
+  companies: Array<{ companyName: string; origin: 'cache' | 'news' | 'none'; sources: NewsSource[] }>;
+  report: string;
+  comparison: { rows: ComparisonRow[]; summary: string } | null;
+  generatedAt: string;
+  cached: boolean;
+  outputLanguage?: string; // 古いキャッシュには無い（ja）
+  newsEditions?: string[]; // 古いキャッシュには無い（["ja-jp"]）
+};
+
+// /api/report-history
+export type ReportModel = {
+  provider: string;
+  name: string;
+  version?: string;
+};
+
+export type ReportVersionMeta = {
+  id: string;
+  companyName: string;
+  generatedAt: string;
+  model: ReportModel | null;
+  articleUrls: string[];
+  lens?: string; // 古い版には無い（general）
+  outputLanguage?: string; // 古い版には無い（ja）
+  newsEditions?: string[]; // 古い版には無い（["ja-jp"]）
+  timeWindow?: TimeWindow; // 古い版には無い（期間指定なし）
+};
+
+// /api/analyze-company-news の timeWindow（api/_lib/time-window.ts）
+export type TimeWindow =
+  | { preset: 'all' | '24h' | '7d' | '30d' }
+  | { preset: 'custom'; from: string; to: string }; // YYYY-MM-DD
+
+// 実際に検索した期間（ISO8601。from が null なら期間指定なし）
+export type NewsRange = {
+  from: string | null;
+  to: string;
+};
+
+// /api/analysis-options（analyze-company-news の lens に渡す分析の観点）
+export type AnalysisLens = {
+  id: string;
+  label: string;
+  description: string;
+};
+
+export type ReportVersion = ReportVersionMeta & {
+  report: string;
+  analysis: StructuredAnalysis | null;
+  sources: NewsSource[];
+  newsRange?: NewsRange | null;
+};
+
+// /api/watchlist（api/_lib/watchlist.ts の WatchStatus から比較用のスナップショットを除いたもの）
+export type WatchChange = {
+  material: boolean; // 通知した変化か
+  reasons: string[];
+  newTopics: string[];
+  newRisks: string[];
+  newArticleCount: number;
+  baselineAt: string | null; // 比べた前回のレポートの生成日時（初回は null）
+};
+
+export type WatchlistEntry = {
+  companyKey: string;
+  companyName: string;
+  addedAt: string;
+  status: {
+    runId: string;
+    checkedAt: string;
+    status: 'ok' | 'failed' | 'skipped';
+    error?: string;
+    change?: WatchChange;
+  } | null; // まだ定期分析していない
+};